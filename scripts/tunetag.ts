@@ -0,0 +1,325 @@
+/**
+ * TuneTag headless CLI — process saved sessions without the browser.
+ * Run: npx tsx scripts/tunetag.ts <command> [options]
+ *
+ *   lint   <session.json>...  [--json]
+ *   export <session.json> --template <template.xlsx> [--out <file.xlsx>]
+ *   stats  <session.json>...  [--json]
+ *
+ * A session file is the `tunetag_v1` AppState as saved to localStorage.
+ * Exit codes: 0 ok, 1 lint errors / export failed, 2 usage or unreadable input.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { AppState, TrackAnnotation, LintIssue } from '../src/types';
+import { lintAnnotation, DEFAULT_LINT_CONFIG } from '../src/lib/lintAnnotation';
+import { buildExportWorkbook, TimelineOverflowError } from '../src/lib/excelExportCore';
+import { getTemplateProfile } from '../src/lib/templateProfiles';
+import { inspectTemplate } from '../src/lib/templateInspector';
+import { getSessionTags } from '../src/lib/tagLibrary';
+import { getStyleProfile, mergeStyleProfilesWithSaved, withStyleProfile } from '../src/lib/styleProfiles';
+import { annotationAuthorship, humanEditRatio } from '../src/lib/revisionLog';
+
+// ── Argument parsing ──────────────────────────────────────────────────────────
+
+interface Args {
+  command: string;
+  files: string[];
+  flags: Record<string, string | true>;
+}
+
+const BOOLEAN_FLAGS = new Set(['json']);
+
+function parseArgs(argv: string[]): Args {
+  const [command = '', ...rest] = argv;
+  const files: string[] = [];
+  const flags: Record<string, string | true> = {};
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    if (arg.startsWith('--')) {
+      const name = arg.slice(2);
+      const next = rest[i + 1];
+      if (next !== undefined && !next.startsWith('--') && !BOOLEAN_FLAGS.has(name)) {
+        flags[name] = next;
+        i++;
+      } else {
+        flags[name] = true;
+      }
+    } else {
+      files.push(arg);
+    }
+  }
+  return { command, files, flags };
+}
+
+const USAGE = `Usage:
+  tunetag lint   <session.json>...  [--json]
+  tunetag export <session.json> --template <template.xlsx> [--out <file.xlsx>]
+  tunetag stats  <session.json>...  [--json]`;
+
+function usage(message?: string): never {
+  if (message) console.error(`Error: ${message}\n`);
+  console.error(USAGE);
+  process.exit(2);
+}
+
+// ── Session loading ───────────────────────────────────────────────────────────
+
+function loadSession(file: string): AppState {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (err) {
+    console.error(`Error: cannot read ${file}: ${err instanceof Error ? err.message : err}`);
+    process.exit(2);
+  }
+  const state = raw as Partial<AppState>;
+  if (!state || typeof state !== 'object' || typeof state.annotations !== 'object' || !state.annotations) {
+    console.error(`Error: ${file} is not a TuneTag session (no "annotations" object)`);
+    process.exit(2);
+  }
+  return state as AppState;
+}
+
+function annotationsOf(state: AppState): TrackAnnotation[] {
+  return Object.values(state.annotations).sort((a, b) => a.track.id - b.track.id);
+}
+
+// Not-started and skipped tracks have nothing to lint
+function isLintable(a: TrackAnnotation): boolean {
+  return a.status === 'in_progress' || a.status === 'complete';
+}
+
+// ── lint ──────────────────────────────────────────────────────────────────────
+
+interface LintReport {
+  file: string;
+  trackId: number;
+  sheetName: string;
+  track: string;
+  status: TrackAnnotation['status'];
+  issues: LintIssue[];
+}
+
+function cmdLint(args: Args): number {
+  if (args.files.length === 0) usage('lint needs at least one session file');
+
+  const reports: LintReport[] = [];
+  for (const file of args.files) {
+    const state = loadSession(file);
+    // Same thresholds as the app: the session's style profile beneath its overrides
+    const profile = getStyleProfile(
+      mergeStyleProfilesWithSaved(state.promptsTagsLibrary?.styleProfiles),
+      state.styleProfileId
+    );
+    const config = withStyleProfile(state.lintConfig ?? DEFAULT_LINT_CONFIG, profile);
+    for (const a of annotationsOf(state)) {
+      if (!isLintable(a)) continue;
+      const { issues } = lintAnnotation(a, {
+        overflowStrategy: state.timelineOverflowStrategy,
+        maxTimelineRows: getTemplateProfile(state.templateProfileId).timeline.maxRows,
+        config,
+        tags: state.promptsTagsLibrary ? getSessionTags(state.promptsTagsLibrary, a.track.id) : undefined,
+        allAnnotations: state.annotations,
+      });
+      reports.push({
+        file,
+        trackId: a.track.id,
+        sheetName: a.track.sheetName,
+        track: `${a.track.artist} - ${a.track.name}`,
+        status: a.status,
+        issues,
+      });
+    }
+  }
+
+  const errors = reports.reduce((n, r) => n + r.issues.filter((i) => i.severity === 'error').length, 0);
+  const warnings = reports.reduce((n, r) => n + r.issues.filter((i) => i.severity === 'warning').length, 0);
+
+  if (args.flags.json) {
+    console.log(JSON.stringify({ errors, warnings, tracks: reports }, null, 2));
+  } else {
+    for (const r of reports) {
+      const mark = r.issues.some((i) => i.severity === 'error') ? '✗' : '✓';
+      console.log(`${mark} ${path.basename(r.file)} · ${r.sheetName} · ${r.track} (${r.status})`);
+      for (const issue of r.issues) {
+        const sev = issue.severity === 'error' ? 'error  ' : 'warning';
+        console.log(`    ${sev}  ${issue.ruleId.padEnd(28)} ${issue.field}: ${issue.message}`);
+      }
+    }
+    console.log(`\n${reports.length} track(s) · ${errors} error(s) · ${warnings} warning(s)`);
+  }
+
+  return errors > 0 ? 1 : 0;
+}
+
+// ── export ────────────────────────────────────────────────────────────────────
+
+async function cmdExport(args: Args): Promise<number> {
+  if (args.files.length !== 1) usage('export takes exactly one session file');
+  const templatePath = args.flags.template;
+  if (typeof templatePath !== 'string') usage('export needs --template <template.xlsx>');
+
+  const file = args.files[0];
+  const state = loadSession(file);
+  const out =
+    typeof args.flags.out === 'string'
+      ? args.flags.out
+      : file.replace(/\.json$/i, '') + '.xlsx';
+
+  const exportable = annotationsOf(state).filter(
+    (a) => a.status === 'complete' || a.status === 'skipped'
+  );
+  if (exportable.length === 0) {
+    console.error('Error: no complete or skipped tracks to export');
+    return 1;
+  }
+
+  const template = fs.readFileSync(templatePath);
+  const profile = getTemplateProfile(state.templateProfileId);
+  const templateIssues = await inspectTemplate(template, exportable.map((a) => a.track), profile);
+  for (const issue of templateIssues) {
+    console.error(`  template warning · ${issue.sheet} · ${issue.message}`);
+  }
+
+  try {
+    const result = await buildExportWorkbook(
+      template,
+      exportable,
+      profile,
+      { overflow: state.timelineOverflowStrategy }
+    );
+    fs.writeFileSync(out, Buffer.from(result.data));
+    console.log(`Wrote ${out} (${exportable.length} track(s))`);
+    if (result.createdSheets.length > 0) console.log(`  Created sheets: ${result.createdSheets.join(', ')}`);
+    if (result.overflowRows > 0) console.log(`  ${result.overflowRows} section(s) written to the overflow sheet`);
+    if (result.missingSheets.length > 0) {
+      console.error(`  Could not write: ${result.missingSheets.join(', ')}`);
+      return 1;
+    }
+    return 0;
+  } catch (err) {
+    if (err instanceof TimelineOverflowError) {
+      console.error(`Error: ${err.message}`);
+      return 1;
+    }
+    throw err;
+  }
+}
+
+// ── stats ─────────────────────────────────────────────────────────────────────
+
+function wordCount(text: string): number {
+  const t = text.trim();
+  return t ? t.split(/\s+/).length : 0;
+}
+
+interface TrackStats {
+  file: string;
+  sheetName: string;
+  status: TrackAnnotation['status'];
+  sections: number;
+  narrativeWords: number;
+  globalWords: number;
+  polishedSections: number;
+  dictatedSections: number;
+  humanWords: number;
+  aiWords: number;
+  humanEditRatio: number | null;
+  elapsedSeconds: number;
+}
+
+function trackStats(file: string, a: TrackAnnotation): TrackStats {
+  const authorship = annotationAuthorship(a);
+  return {
+    file,
+    sheetName: a.track.sheetName,
+    status: a.status,
+    sections: a.timeline.length,
+    narrativeWords: a.timeline.reduce((n, e) => n + wordCount(e.narrative), 0),
+    globalWords: Object.values(a.global).reduce((n, v) => n + wordCount(v ?? ''), 0),
+    polishedSections: a.timeline.filter((e) => e.wasPolished).length,
+    dictatedSections: a.timeline.filter((e) => e.isDictated).length,
+    ...authorship,
+    humanEditRatio: humanEditRatio(authorship),
+    elapsedSeconds: a.elapsedSeconds ?? 0,
+  };
+}
+
+function formatElapsed(seconds: number): string {
+  return `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, '0')}s`;
+}
+
+function formatRatio(ratio: number | null): string {
+  return ratio === null ? 'no text' : `${Math.round(ratio * 100)}% human-written`;
+}
+
+function cmdStats(args: Args): number {
+  if (args.files.length === 0) usage('stats needs at least one session file');
+
+  const rows = args.files.flatMap((file) =>
+    annotationsOf(loadSession(file)).map((a) => trackStats(file, a))
+  );
+  const byStatus: Record<string, number> = {};
+  for (const r of rows) byStatus[r.status] = (byStatus[r.status] ?? 0) + 1;
+
+  const totals = {
+    tracks: rows.length,
+    byStatus,
+    sections: rows.reduce((n, r) => n + r.sections, 0),
+    narrativeWords: rows.reduce((n, r) => n + r.narrativeWords, 0),
+    globalWords: rows.reduce((n, r) => n + r.globalWords, 0),
+    polishedSections: rows.reduce((n, r) => n + r.polishedSections, 0),
+    dictatedSections: rows.reduce((n, r) => n + r.dictatedSections, 0),
+    humanWords: rows.reduce((n, r) => n + r.humanWords, 0),
+    aiWords: rows.reduce((n, r) => n + r.aiWords, 0),
+    elapsedSeconds: rows.reduce((n, r) => n + r.elapsedSeconds, 0),
+  };
+  const totalsRatio = humanEditRatio(totals);
+
+  if (args.flags.json) {
+    console.log(JSON.stringify({ totals: { ...totals, humanEditRatio: totalsRatio }, tracks: rows }, null, 2));
+    return 0;
+  }
+
+  for (const r of rows) {
+    console.log(
+      `${path.basename(r.file)} · ${r.sheetName} · ${r.status} · ${r.sections} section${r.sections === 1 ? '' : 's'} · ` +
+        `${r.narrativeWords + r.globalWords} words · ${r.polishedSections} polished · ` +
+        `${r.dictatedSections} dictated · ${formatRatio(r.humanEditRatio)} · ${formatElapsed(r.elapsedSeconds)}`
+    );
+  }
+  const statusLine = Object.entries(byStatus).map(([s, n]) => `${n} ${s}`).join(', ');
+  console.log(`\n${totals.tracks} track(s) (${statusLine})`);
+  console.log(`${totals.sections} section${totals.sections === 1 ? '' : 's'} · ${totals.narrativeWords + totals.globalWords} words · ${formatRatio(totalsRatio)} · ${formatElapsed(totals.elapsedSeconds)} total`);
+  return 0;
+}
+
+// ── Main ──────────────────────────────────────────────────────────────────────
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  switch (args.command) {
+    case 'lint':
+      return cmdLint(args);
+    case 'export':
+      return cmdExport(args);
+    case 'stats':
+      return cmdStats(args);
+    case '':
+    case 'help':
+    case '--help':
+      console.log(USAGE);
+      return 0;
+    default:
+      usage(`unknown command "${args.command}"`);
+  }
+}
+
+main()
+  .then((code) => process.exit(code))
+  .catch((err) => {
+    console.error('Unexpected error:', err);
+    process.exit(1);
+  });
@@ -8,132 +8,38 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
 import ExcelJS from 'exceljs';
+import type { Track, TrackAnnotation, TimelineEntry } from '../src/types';
+import { GLOBAL_CATEGORIES } from '../src/lib/schema';
+import {
+  TUNETAG_V1_PROFILE,
+  TIMELINE_COLUMN_FIELDS,
+  timelineCell,
+  globalValueCell,
+  globalLabelCell,
+} from '../src/lib/templateProfiles';
+import {
+  buildExportWorkbook,
+  parseTimestampToExcelSerial,
+  TimelineOverflowError,
+} from '../src/lib/excelExportCore';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
-// ── Types (inline to avoid Vite-specific path issues in Node) ─────────────────
-interface TimelineEntry {
-  id: string;
-  timestamp: string;
-  sectionType: string;
-  narrative: string;
-  narrativeRaw: string;
-  tags: string;
-  wasPolished: boolean;
-}
-
-interface GlobalAnalysis {
-  genre: string;
-  instrumentation: string;
-  mix: string;
-  playing: string;
-  vocals: string;
-  emotion: string;
-  lyrics: string;
-  quality: string;
-  wow: string;
-}
+// The validator runs the same export core the app ships — no mirror.
+const profile = TUNETAG_V1_PROFILE;
 
-interface Track {
-  id: number;
-  artist: string;
-  name: string;
-  spotifyId: string;
-  spotifyUrl: string;
-  sheetName: string;
-  audioLabel: string;
-}
+// ExcelJS reads [m]:ss cells back as Dates on the 1900 epoch
+const EXCEL_EPOCH_MS = Date.UTC(1899, 11, 30);
 
-interface TrackAnnotation {
-  track: Track;
-  annotator: string;
-  timeline: TimelineEntry[];
-  global: Partial<GlobalAnalysis>;
-  status: 'not_started' | 'in_progress' | 'complete' | 'skipped';
-  skipReason?: string;
-  elapsedSeconds: number;
+/** Serial of a timestamp cell, whether ExcelJS returned a number or a Date. */
+function cellSerial(value: ExcelJS.CellValue): number | null {
+  if (typeof value === 'number') return value;
+  if (value instanceof Date) return (value.getTime() - EXCEL_EPOCH_MS) / 86400000;
+  return null;
 }
 
-// ── Inline export logic (mirrors src/lib/excelExport.ts) ─────────────────────
-const MAX_TIMELINE_ROWS = 10;
-
-function parseTimestampToExcelSerial(mss: string): number | null {
-  const match = mss.trim().match(/^(\d+):([0-5]\d)$/);
-  if (!match) return null;
-  const m = parseInt(match[1], 10);
-  const s = parseInt(match[2], 10);
-  return (m * 60 + s) / 86400;
-}
-
-async function exportAnnotationsToExcel(
-  templateBuffer: Buffer,
-  annotations: TrackAnnotation[]
-): Promise<Buffer> {
-  const wb = new ExcelJS.Workbook();
-  await wb.xlsx.load(templateBuffer);
-
-  for (const annotation of annotations) {
-    const ws = wb.getWorksheet(annotation.track.sheetName);
-    if (!ws) {
-      console.error(`Sheet not found: ${annotation.track.sheetName}`);
-      continue;
-    }
-
-    if (annotation.status !== 'complete' && annotation.status !== 'skipped') {
-      continue;
-    }
-
-    // Clear all 10 timeline rows
-    for (let i = 0; i < 10; i++) {
-      const row = 6 + i;
-      ws.getCell(`A${row}`).value = null;
-      ws.getCell(`B${row}`).value = null;
-      ws.getCell(`C${row}`).value = null;
-      ws.getCell(`D${row}`).value = null;
-    }
-
-    ws.getCell('B2').value = annotation.annotator;
-
-    if (annotation.status === 'complete') {
-      const entries = annotation.timeline.slice(0, MAX_TIMELINE_ROWS);
-      for (let i = 0; i < entries.length; i++) {
-        const entry = entries[i];
-        const rowNum = 6 + i;
-
-        const serial = parseTimestampToExcelSerial(entry.timestamp);
-        if (serial !== null) {
-          const cell = ws.getCell(`A${rowNum}`);
-          cell.value = serial;
-          cell.numFmt = '[m]:ss';
-        } else {
-          ws.getCell(`A${rowNum}`).value = entry.timestamp;
-        }
-
-        ws.getCell(`B${rowNum}`).value = entry.sectionType;
-        ws.getCell(`C${rowNum}`).value = entry.narrative;
-        ws.getCell(`D${rowNum}`).value = entry.tags;
-      }
-
-      const g = annotation.global as Record<string, string>;
-      ws.getCell('C19').value = g['genre'] ?? '';
-      ws.getCell('C20').value = g['instrumentation'] ?? '';
-      ws.getCell('C21').value = g['mix'] ?? '';
-      ws.getCell('C22').value = g['playing'] ?? '';
-      ws.getCell('C23').value = g['vocals'] ?? '';
-      ws.getCell('C24').value = g['emotion'] ?? '';
-      ws.getCell('C25').value = g['lyrics'] ?? '';
-      ws.getCell('C26').value = g['quality'] ?? '';
-      ws.getCell('C27').value = g['wow'] ?? '';
-    } else if (annotation.status === 'skipped') {
-      ws.getCell('C6').value = 'SKIPPED';
-      ws.getCell('C19').value = annotation.skipReason
-        ? `Skipped — ${annotation.skipReason}`
-        : 'Skipped — annotator elected to skip this track';
-    }
-  }
-
-  const buf = await wb.xlsx.writeBuffer();
-  return Buffer.from(buf);
+function isEmpty(value: ExcelJS.CellValue): boolean {
+  return value === null || value === undefined || value === '';
 }
 
 // ── Assertion helpers ─────────────────────────────────────────────────────────
@@ -179,8 +85,32 @@ const TRACKS: Track[] = [
     sheetName: 'Track 3',
     audioLabel: '',
   },
+  {
+    // Custom track — the template has no "Track 4" sheet, so it is cloned
+    id: 4,
+    artist: 'Custom Artist',
+    name: 'Long Song',
+    spotifyId: '0000000000000000000000',
+    spotifyUrl: 'https://open.spotify.com/track/0000000000000000000000',
+    sheetName: 'Track 4',
+    audioLabel: 'Custom Artist - Long Song https://open.spotify.com/track/0000000000000000000000',
+  },
 ];
 
+// More sections than the template holds — exercises the overflow sheet
+const LONG_TIMELINE: TimelineEntry[] = Array.from(
+  { length: profile.timeline.maxRows + 2 },
+  (_, i) => ({
+    id: `long${i}`,
+    timestamp: `${Math.floor((i * 20) / 60)}:${String((i * 20) % 60).padStart(2, '0')}`,
+    sectionType: `Part ${i + 1}`,
+    narrative: `Section ${i + 1} develops the previous idea.`,
+    narrativeRaw: `Section ${i + 1} develops the previous idea.`,
+    tags: 'Synth, Drums',
+    wasPolished: false,
+  })
+);
+
 const TEST_ANNOTATOR = 'Test Validator';
 
 const fakeAnnotations: TrackAnnotation[] = [
@@ -247,6 +177,14 @@ const fakeAnnotations: TrackAnnotation[] = [
     status: 'not_started',
     elapsedSeconds: 0,
   },
+  {
+    track: TRACKS[3],
+    annotator: TEST_ANNOTATOR,
+    timeline: LONG_TIMELINE,
+    global: { genre: 'Synthwave' },
+    status: 'complete',
+    elapsedSeconds: 600,
+  },
 ];
 
 // ── Run tests ─────────────────────────────────────────────────────────────────
@@ -261,23 +199,39 @@ async function run() {
   // Load original template values for unchanged-cell checks
   const originalBuffer = fs.readFileSync(templatePath);
   const originalWb = new ExcelJS.Workbook();
-  await originalWb.xlsx.load(originalBuffer);
+  // ExcelJS types load() as ArrayBuffer-only; a Node Buffer works at runtime
+  await originalWb.xlsx.load(originalBuffer as unknown as ExcelJS.Buffer);
 
   const origTrack1 = originalWb.getWorksheet('Track 1')!;
   const origTrack2 = originalWb.getWorksheet('Track 2')!;
   const origTrack3 = originalWb.getWorksheet('Track 3')!;
   const origExample = originalWb.getWorksheet('Example')!;
 
-  const origA1_T1 = origTrack1.getCell('A1').value;
-  const origB1_T1 = origTrack1.getCell('B1').value;
-  const origA2_T1 = origTrack1.getCell('A2').value;
-  const origB19_T1 = origTrack1.getCell('B19').value;
-  const origB2_T3 = origTrack3.getCell('B2').value;
-  const origExA1 = origExample.getCell('A1').value;
-  const origExA3 = origExample.getCell('A3').value;
+  const guidanceCell = (key: keyof typeof profile.global.rows) =>
+    `${profile.global.guidanceColumn}${profile.global.rows[key]}`;
 
-  // Run export
-  const exportedBuffer = await exportAnnotationsToExcel(originalBuffer, fakeAnnotations);
+  // ── DEFAULT STRATEGY BLOCKS OVER-LONG TIMELINES ───────────────────────────
+  console.log('\n── Overflow strategy "condense" (default):');
+  let blocked: unknown = null;
+  try {
+    await buildExportWorkbook(originalBuffer, fakeAnnotations, profile);
+  } catch (err) {
+    blocked = err;
+  }
+  assert(blocked instanceof TimelineOverflowError, 'export refuses instead of truncating');
+  if (blocked instanceof TimelineOverflowError) {
+    assert(
+      blocked.tracks.length === 1 && blocked.tracks[0].sheetName === 'Track 4',
+      'error names the over-long track',
+      `Got: ${JSON.stringify(blocked.tracks)}`
+    );
+  }
+
+  // Run export (Node Buffer in — the browser passes an ArrayBuffer)
+  const result = await buildExportWorkbook(originalBuffer, fakeAnnotations, profile, {
+    overflow: 'overflow_sheet',
+  });
+  const exportedBuffer = Buffer.from(result.data);
 
   // Write for inspection
   const outputPath = '/tmp/tunetag_test_export.xlsx';
@@ -286,76 +240,100 @@ async function run() {
 
   // Reload for assertions
   const wb = new ExcelJS.Workbook();
-  await wb.xlsx.load(exportedBuffer);
+  await wb.xlsx.load(exportedBuffer as unknown as ExcelJS.Buffer);
+
+  // ── EXPORT SUMMARY ────────────────────────────────────────────────────────
+  console.log('── Export summary:');
+  assert(
+    result.createdSheets.length === 1 && result.createdSheets[0] === 'Track 4',
+    'createdSheets = [Track 4]',
+    `Got: ${JSON.stringify(result.createdSheets)}`
+  );
+  assert(result.missingSheets.length === 0, 'no missing sheets');
+  assert(result.overflowRows === 2, 'overflowRows = 2', `Got: ${result.overflowRows}`);
 
   // ── SHEET PRESENCE ────────────────────────────────────────────────────────
-  console.log('── Sheet presence:');
-  assert(!!wb.getWorksheet('Track 1'), 'Track 1 sheet present');
-  assert(!!wb.getWorksheet('Track 2'), 'Track 2 sheet present');
-  assert(!!wb.getWorksheet('Track 3'), 'Track 3 sheet present');
-  assert(!!wb.getWorksheet('Example'), 'Example sheet present');
+  console.log('\n── Sheet presence:');
+  for (const name of ['Track 1', 'Track 2', 'Track 3', 'Track 4', 'Example', profile.overflowSheet]) {
+    assert(!!wb.getWorksheet(name), `${name} sheet present`);
+  }
 
   // ── COMPLETE TRACK (Track 1) ──────────────────────────────────────────────
   console.log('\n── Track 1 (complete):');
   const ws1 = wb.getWorksheet('Track 1')!;
+  const t1 = fakeAnnotations[0];
 
   assert(
-    ws1.getCell('B2').value === TEST_ANNOTATOR,
-    'B2 = annotator name',
-    `Got: ${ws1.getCell('B2').value}`
+    ws1.getCell(profile.metadata.annotator).value === TEST_ANNOTATOR,
+    `${profile.metadata.annotator} = annotator name`,
+    `Got: ${ws1.getCell(profile.metadata.annotator).value}`
   );
 
   // Unchanged template cells
-  assert(String(ws1.getCell('A1').value) === String(origA1_T1), 'A1 unchanged');
-  assert(String(ws1.getCell('B1').value) === String(origB1_T1), 'B1 unchanged');
-  assert(String(ws1.getCell('A2').value) === String(origA2_T1), 'A2 unchanged ("ANNOTATOR")');
-
-  // Timestamp: A6 must be numeric serial
-  const a6Cell = ws1.getCell('A6');
-  const a6 = a6Cell.value;
-  assert(typeof a6 === 'number', 'A6 is numeric (Excel serial)', `Got type: ${typeof a6}`);
-
-  // FIX #11: explicitly verify numFmt is set to [m]:ss
+  assert(String(ws1.getCell('A1').value) === String(origTrack1.getCell('A1').value), 'A1 unchanged');
   assert(
-    a6Cell.numFmt === '[m]:ss',
-    'A6 numFmt is [m]:ss',
-    `Got: ${a6Cell.numFmt}`
+    String(ws1.getCell(profile.metadata.audioLabel).value) ===
+      String(origTrack1.getCell(profile.metadata.audioLabel).value),
+    `${profile.metadata.audioLabel} unchanged`
   );
+  assert(String(ws1.getCell('A2').value) === String(origTrack1.getCell('A2').value), 'A2 unchanged ("ANNOTATOR")');
+
+  // Every timeline cell: written rows match the entry, the rest are cleared
+  for (let i = 0; i < profile.timeline.maxRows; i++) {
+    const entry = t1.timeline[i];
+    const tsAddr = timelineCell(profile, 'timestamp', i);
+    const tsCell = ws1.getCell(tsAddr);
+
+    if (!entry) {
+      for (const field of TIMELINE_COLUMN_FIELDS) {
+        const addr = timelineCell(profile, field, i);
+        assert(isEmpty(ws1.getCell(addr).value), `${addr} is empty (cleared)`);
+      }
+      continue;
+    }
 
-  if (typeof a6 === 'number') {
-    // 0:15 = 15 seconds = 15/86400
-    const expectedSerial = 15 / 86400;
-    const delta = Math.abs(a6 - expectedSerial);
-    assert(delta < 0.000001, 'A6 serial round-trips to 15 seconds', `Got: ${a6}, expected: ${expectedSerial}`);
-  }
+    // Timestamp: a serial with [m]:ss format. ExcelJS reads it back as a Date.
+    const serial = cellSerial(tsCell.value);
+    const expected = parseTimestampToExcelSerial(entry.timestamp)!;
+    assert(
+      serial !== null && Math.abs(serial - expected) < 0.000001,
+      `${tsAddr} serial round-trips to ${entry.timestamp}`,
+      `Got: ${String(tsCell.value)}, expected serial: ${expected}`
+    );
+    assert(
+      tsCell.numFmt === profile.timeline.timestampNumFmt,
+      `${tsAddr} numFmt is ${profile.timeline.timestampNumFmt}`,
+      `Got: ${tsCell.numFmt}`
+    );
 
-  assert(ws1.getCell('B6').value === 'Intro', 'B6 = first sectionType');
-  assert(
-    ws1.getCell('C6').value === 'Sparse guitar opens over ambient pad.',
-    'C6 = first narrative'
-  );
-  assert(ws1.getCell('D6').value === 'Acoustic Guitar, Pads, Lo-fi', 'D6 = first tags');
+    const sectionAddr = timelineCell(profile, 'sectionType', i);
+    const narrativeAddr = timelineCell(profile, 'narrative', i);
+    const tagsAddr = timelineCell(profile, 'tags', i);
+    assert(ws1.getCell(sectionAddr).value === entry.sectionType, `${sectionAddr} = sectionType`);
+    assert(ws1.getCell(narrativeAddr).value === entry.narrative, `${narrativeAddr} = narrative`);
+    assert(ws1.getCell(tagsAddr).value === entry.tags, `${tagsAddr} = tags`);
+  }
 
-  // Global
-  assert(ws1.getCell('C19').value === 'Indie Pop, 2020s', 'C19 = genre');
-  assert(
-    typeof ws1.getCell('C27').value === 'string' &&
-      (ws1.getCell('C27').value as string).length > 0,
-    'C27 = wow factor (non-empty)'
-  );
+  // Every global category: value written, label + guidance untouched
+  const g1 = t1.global as Record<string, string>;
+  for (const cat of GLOBAL_CATEGORIES) {
+    const valueAddr = globalValueCell(profile, cat.key);
+    assert(
+      ws1.getCell(valueAddr).value === (g1[cat.key] ?? ''),
+      `${valueAddr} = ${cat.key}`,
+      `Got: ${ws1.getCell(valueAddr).value}`
+    );
 
-  // Column B guidance text in Part 2 must be UNCHANGED
-  assert(
-    String(ws1.getCell('B19').value) === String(origB19_T1),
-    'B19 guidance text unchanged'
-  );
+    const labelAddr = globalLabelCell(profile, cat.key);
+    assert(
+      String(ws1.getCell(labelAddr).value) === String(origTrack1.getCell(labelAddr).value),
+      `${labelAddr} category label unchanged`
+    );
 
-  // Unused timeline rows cleared
-  for (let r = 9; r <= 15; r++) {
-    const val = ws1.getCell(`A${r}`).value;
+    const guidanceAddr = guidanceCell(cat.key);
     assert(
-      val === null || val === undefined || val === '',
-      `A${r} is empty (cleared)`
+      String(ws1.getCell(guidanceAddr).value) === String(origTrack1.getCell(guidanceAddr).value),
+      `${guidanceAddr} guidance text unchanged`
     );
   }
 
@@ -363,48 +341,119 @@ async function run() {
   console.log('\n── Track 2 (skipped):');
   const ws2 = wb.getWorksheet('Track 2')!;
 
-  assert(ws2.getCell('B2').value === TEST_ANNOTATOR, 'B2 = annotator name');
-  assert(ws2.getCell('C6').value === 'SKIPPED', 'C6 = "SKIPPED"');
-
-  const c19Val = String(ws2.getCell('C19').value ?? '');
+  const { markerCell, reasonCell } = profile.skipped;
   assert(
-    c19Val.includes('Genre too far outside expertise'),
-    'C19 contains skip reason',
-    `Got: ${c19Val}`
+    ws2.getCell(profile.metadata.annotator).value === TEST_ANNOTATOR,
+    `${profile.metadata.annotator} = annotator name`
   );
+  assert(ws2.getCell(markerCell).value === 'SKIPPED', `${markerCell} = "SKIPPED"`);
 
-  const c7Val = ws2.getCell('C7').value;
+  const reasonVal = String(ws2.getCell(reasonCell).value ?? '');
   assert(
-    c7Val === null || c7Val === undefined || c7Val === '',
-    'C7 is empty (not overwritten)'
+    reasonVal.includes('Genre too far outside expertise'),
+    `${reasonCell} contains skip reason`,
+    `Got: ${reasonVal}`
   );
 
+  // Every other timeline cell cleared, every other global cell as in the template
+  let skippedTimelineClean = true;
+  for (let i = 0; i < profile.timeline.maxRows; i++) {
+    for (const field of TIMELINE_COLUMN_FIELDS) {
+      const addr = timelineCell(profile, field, i);
+      if (addr !== markerCell && !isEmpty(ws2.getCell(addr).value)) skippedTimelineClean = false;
+    }
+  }
+  assert(skippedTimelineClean, 'timeline cells other than the marker are empty');
+
+  for (const cat of GLOBAL_CATEGORIES) {
+    const addr = globalValueCell(profile, cat.key);
+    if (addr === reasonCell) continue;
+    assert(
+      String(ws2.getCell(addr).value ?? '') === String(origTrack2.getCell(addr).value ?? ''),
+      `${addr} unchanged from template`
+    );
+  }
+
   // ── NOT_STARTED TRACK (Track 3) ───────────────────────────────────────────
   console.log('\n── Track 3 (not_started — should be untouched):');
   const ws3 = wb.getWorksheet('Track 3')!;
 
-  // B2 should equal the original template value (not our annotator name)
+  const profileCells = [
+    profile.metadata.annotator,
+    profile.metadata.audioLabel,
+    ...Array.from({ length: profile.timeline.maxRows }, (_, i) =>
+      TIMELINE_COLUMN_FIELDS.map((f) => timelineCell(profile, f, i))
+    ).flat(),
+    ...GLOBAL_CATEGORIES.map((cat) => globalValueCell(profile, cat.key)),
+  ];
+  const changed = profileCells.filter(
+    (addr) => String(ws3.getCell(addr).value ?? '') !== String(origTrack3.getCell(addr).value ?? '')
+  );
+  assert(
+    changed.length === 0,
+    `all ${profileCells.length} profile cells unchanged (not_started track not written)`,
+    `Changed: ${changed.join(', ')}`
+  );
+
+  // ── CLONED CUSTOM TRACK (Track 4) ─────────────────────────────────────────
+  console.log('\n── Track 4 (custom — cloned from master, overflowing):');
+  const ws4 = wb.getWorksheet('Track 4')!;
+  const t4 = fakeAnnotations[3];
+
+  assert(
+    ws4.getCell(profile.metadata.audioLabel).value === t4.track.audioLabel,
+    `${profile.metadata.audioLabel} = custom track audio label`
+  );
+  assert(ws4.getCell(profile.metadata.annotator).value === TEST_ANNOTATOR, `${profile.metadata.annotator} = annotator name`);
+  const uncopied = GLOBAL_CATEGORIES.map((cat) => globalLabelCell(profile, cat.key)).filter(
+    (addr) => String(ws4.getCell(addr).value) !== String(origTrack1.getCell(addr).value)
+  );
+  assert(uncopied.length === 0, 'global labels copied from master', `Differ: ${uncopied.join(', ')}`);
+
+  const lastRow = profile.timeline.maxRows - 1;
+  const lastAddr = timelineCell(profile, 'narrative', lastRow);
   assert(
-    String(ws3.getCell('B2').value ?? '') === String(origB2_T3 ?? ''),
-    'B2 unchanged from template (not_started track not written)',
-    `Got: ${ws3.getCell('B2').value}, expected: ${origB2_T3}`
+    ws4.getCell(lastAddr).value === t4.timeline[lastRow].narrative,
+    `${lastAddr} = last row that fits the sheet`
   );
 
+  // ── OVERFLOW SHEET ────────────────────────────────────────────────────────
+  console.log(`\n── ${profile.overflowSheet} sheet:`);
+  const wsOver = wb.getWorksheet(profile.overflowSheet)!;
+  assert(wsOver.getCell('A1').value === 'SHEET', 'header row present');
+  const extra = t4.timeline.slice(profile.timeline.maxRows);
+  extra.forEach((entry, i) => {
+    const row = wsOver.getRow(i + 2);
+    assert(
+      row.getCell(1).value === 'Track 4' &&
+        row.getCell(3).value === profile.timeline.maxRows + i + 1 &&
+        row.getCell(5).value === entry.sectionType &&
+        row.getCell(6).value === entry.narrative &&
+        row.getCell(7).value === entry.tags,
+      `row ${i + 2} = Track 4 section ${profile.timeline.maxRows + i + 1}`
+    );
+    const serial = cellSerial(row.getCell(4).value);
+    assert(
+      serial !== null && Math.abs(serial - parseTimestampToExcelSerial(entry.timestamp)!) < 0.000001,
+      `row ${i + 2} timestamp = ${entry.timestamp}`
+    );
+  });
+
   // ── EXAMPLE SHEET — completely untouched ──────────────────────────────────
   console.log('\n── Example sheet (must be untouched):');
   const exSheet = wb.getWorksheet('Example')!;
   assert(
-    String(exSheet.getCell('A1').value) === String(origExA1),
+    String(exSheet.getCell('A1').value) === String(origExample.getCell('A1').value),
     'Example A1 unchanged'
   );
   assert(
-    String(exSheet.getCell('A3').value) === String(origExA3),
+    String(exSheet.getCell('A3').value) === String(origExample.getCell('A3').value),
     'Example A3 unchanged'
   );
 
-  // FIX #11: scan all three Track sheets for #REF! / formula errors
+  // FIX #11: scan all Track sheets for #REF! / formula errors
   console.log('\n── Formula error scan (all Track sheets):');
-  for (const sheetName of ['Track 1', 'Track 2', 'Track 3']) {
+  for (const sheetName of ['Track 1', 'Track 2', 'Track 3', 'Track 4']) {
     const ws = wb.getWorksheet(sheetName)!;
     let errorFound = false;
     ws.eachRow((row) => {
@@ -2,8 +2,8 @@
 // FIX #2: resumeSavedState() returns snapshot; timer restore uses it directly.
 // FIX #3: playTrack called with position_ms so Spotify always starts at correct position.
 // FIX #4: Drift correction effect keeps timer in sync with Spotify's authoritative position.
-import { useState, useEffect, useCallback, useRef } from 'react';
-import type { TemplateState, RecordingEntry } from './types';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import type { TemplateState, RecordingEntry, Track } from './types';
 import { useAnnotationState, useTimer } from './hooks';
 import SetupScreen from './components/SetupScreen';
 import { PhaseSelect } from './components/PhaseSelect';
@@ -21,27 +21,36 @@ import { SpotifyPlayer } from './components/SpotifyPlayer';
 import { handleSpotifyCallback, getStoredToken, initiateSpotifyLogin } from './lib/spotifyAuth';
 import { playTrack, transferPlayback } from './lib/spotifyApi';
 import { loadResearchedPacks } from './lib/loadResearchedPacks';
+import { inspectTemplate } from './lib/templateInspector';
+import { getTemplateProfile } from './lib/templateProfiles';
+import { getStyleProfile, withStyleProfile, buildPolishSystemPrompt, quickCleanWords } from './lib/styleProfiles';
 
 function App() {
   const [showHelp, setShowHelp] = useState(false);
   // ── Template loading ───────────────────────────────────────────────────────
   const [templateState, setTemplateState] = useState<TemplateState>({ status: 'loading' });
 
-  function loadTemplate() {
+  // Loads the template, then checks its layout against the selected profile
+  function loadTemplate(profileId: string, tracks: Track[]) {
     setTemplateState({ status: 'loading' });
     fetch('/template.xlsx')
       .then((r) => {
         if (!r.ok) throw new Error(`HTTP ${r.status}`);
         return r.arrayBuffer();
       })
-      .then((buffer) => setTemplateState({ status: 'ready', buffer }))
+      .then(async (buffer) => {
+        const issues = await inspectTemplate(buffer, tracks, getTemplateProfile(profileId));
+        setTemplateState(
+          issues.length > 0
+            ? { status: 'ready_with_warnings', buffer, issues }
+            : { status: 'ready', buffer }
+        );
+      })
       .catch((err) =>
         setTemplateState({ status: 'failed', error: err.message ?? 'Unknown error' })
       );
   }
 
-  useEffect(() => { loadTemplate(); }, []);
-
   // ── API key gate ───────────────────────────────────────────────────────────
   const [apiKeyDone, setApiKeyDone] = useState(() =>
     sessionStorage.getItem('tunetag_api_key_gate_done') === '1'
@@ -55,6 +64,25 @@ function App() {
   // ── App state ──────────────────────────────────────────────────────────────
   const state = useAnnotationState();
 
+  // The project's style profile supplies the rules shown before annotating,
+  // the polish prompt and the lint thresholds that enforce its rules
+  const styleProfile = getStyleProfile(state.library.styleProfiles, state.styleProfileId);
+  const lintConfig = useMemo(
+    () => withStyleProfile(state.lintConfig, styleProfile),
+    [state.lintConfig, styleProfile]
+  );
+  const polishPrompt = useMemo(() => buildPolishSystemPrompt(styleProfile), [styleProfile]);
+  const cleanWords = quickCleanWords(styleProfile);
+
+  // Re-inspect when the profile or the track list changes
+  const sessionTracks = Object.values(state.annotations).map((a) => a.track);
+  const sessionSheetsKey = sessionTracks.map((t) => t.sheetName).join('|');
+  useEffect(
+    () => { loadTemplate(state.templateProfileId, sessionTracks); },
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [state.templateProfileId, sessionSheetsKey]
+  );
+
   // ── Auto-load researched tag packs on setup complete ───────────────────────
   useEffect(() => {
     if (!apiKeyDone) return;
@@ -304,6 +332,13 @@ function App() {
           togglePackEnabled={state.togglePackEnabled}
           importTagPack={state.importTagPack}
           undoLastAction={state.undoLastAction}
+          lintConfig={lintConfig}
+          setLintRuleConfig={state.setLintRuleConfig}
+          resetLintConfig={state.resetLintConfig}
+          styleProfileId={styleProfile.id}
+          setStyleProfileId={state.setStyleProfileId}
+          saveStyleProfile={state.saveStyleProfile}
+          deleteStyleProfile={state.deleteStyleProfile}
         />
       )}
 
@@ -313,6 +348,8 @@ function App() {
           setActiveTrackId={state.setActiveTrackId}
           setPhase={state.setPhase}
           resetTrack={state.resetTrack}
+          templateProfileId={state.templateProfileId}
+          mergeImportedAnnotations={state.mergeImportedAnnotations}
         />
       )}
 
@@ -329,6 +366,8 @@ function App() {
             state.setPhase('listening');
             timerStart();
           }}
+          updateTimeline={state.updateTimeline}
+          styleRules={styleProfile.rules}
         />
       )}
 
@@ -364,6 +403,10 @@ function App() {
               onTimerResume={timerStart}
               onTimerPause={timerPause}
               library={state.library}
+              lintConfig={lintConfig}
+              polishPrompt={polishPrompt}
+              quickCleanWords={cleanWords}
+              logRevisions={state.logRevisions}
             />
           )}
         </>
@@ -393,8 +436,22 @@ function App() {
           setCategoryIndex={state.setGlobalCategoryIndex}
           setOnSummary={state.setGlobalOnSummary}
           updateGlobal={state.updateGlobal}
+          markGlobalPolished={state.markGlobalPolished}
+          setGlobalDrafts={state.setGlobalDrafts}
+          dismissGlobalDraft={state.dismissGlobalDraft}
+          logRevisions={state.logRevisions}
           setStatus={state.setStatus}
           setPhase={state.setPhase}
+          timelineOverflowStrategy={state.timelineOverflowStrategy}
+          maxTimelineRows={getTemplateProfile(state.templateProfileId).timeline.maxRows}
+          lintConfig={lintConfig}
+          polishPrompt={polishPrompt}
+          quickCleanWords={cleanWords}
+          library={state.library}
+          trackDurationSeconds={spotifyPlayer.duration > 0 ? spotifyPlayer.duration / 1000 : null}
+          applyLintFixes={state.applyLintFixes}
+          undoStack={state.undoStack}
+          undoLastAction={state.undoLastAction}
         />
       )}
 
@@ -409,6 +466,20 @@ function App() {
           setGlobalCategoryIndex={state.setGlobalCategoryIndex}
           setGlobalOnSummary={state.setGlobalOnSummary}
           annotator={state.annotator}
+          templateProfileId={state.templateProfileId}
+          setTemplateProfileId={state.setTemplateProfileId}
+          timelineOverflowStrategy={state.timelineOverflowStrategy}
+          lintConfig={lintConfig}
+          polishPrompt={polishPrompt}
+          setTimelineOverflowStrategy={state.setTimelineOverflowStrategy}
+          updateTimeline={state.updateTimeline}
+          library={state.library}
+          trackDurationSeconds={spotifyPlayer.duration > 0 ? spotifyPlayer.duration / 1000 : null}
+          applyLintFixes={state.applyLintFixes}
+          applyPolishUpdates={state.applyPolishUpdates}
+          logRevisions={state.logRevisions}
+          undoStack={state.undoStack}
+          undoLastAction={state.undoLastAction}
         />
       )}
     </div>
@@ -0,0 +1,182 @@
+import { useState, useEffect, useRef } from 'react';
+import type { TrackAnnotation, PolishUpdate, FieldRevision } from '../types';
+import { collectPolishJobs, runBatchPolish, toPolishUpdate, wordDiff } from '../lib/batchPolish';
+import type { PolishJob } from '../lib/batchPolish';
+import { fieldHistory, humanRevision, aiSource } from '../lib/revisionLog';
+
+interface Props {
+  annotation: TrackAnnotation;
+  systemPrompt: string;
+  onAccept: (updates: PolishUpdate[]) => void;
+  onLog: (fieldId: string, revisions: FieldRevision[]) => void;  // job ids double as field ids
+  undoLabel: string | null;   // latest undoable polish accept, if any
+  onUndo: () => void;
+}
+
+interface BatchItem {
+  job: PolishJob;
+  status: 'queued' | 'ready' | 'failed' | 'accepted' | 'rejected';
+  proposal: string;           // the cleaned-up text, editable before accepting
+  suggested: string;          // the proposal as it came back, to tell if it was edited
+  error?: string;
+  editing: boolean;
+}
+
+/**
+ * "Polish all" for Review: sends every unpolished narrative and global value
+ * through polishText, then lists the results as word diffs to accept, reject
+ * or edit one by one.
+ */
+export function BatchPolishPanel({ annotation, systemPrompt, onAccept, onLog, undoLabel, onUndo }: Props) {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [running, setRunning] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const pendingJobs = collectPolishJobs(annotation);
+
+  // Stop queueing requests when Review closes
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  function updateItem(id: string, patch: Partial<BatchItem>) {
+    setItems((prev) => prev.map((it) => (it.job.id === id ? { ...it, ...patch } : it)));
+  }
+
+  async function polishAll() {
+    const jobs = pendingJobs;
+    if (jobs.length === 0 || running) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setItems(jobs.map((job) => ({ job, status: 'queued', proposal: '', suggested: '', editing: false })));
+    setRunning(true);
+    const source = aiSource(systemPrompt);
+    await runBatchPolish(jobs, {
+      systemPrompt,
+      signal: controller.signal,
+      onResult: (job, outcome) => {
+        if (!outcome.ok) {
+          updateItem(job.id, { status: 'failed', error: outcome.error });
+          return;
+        }
+        const human = humanRevision(fieldHistory(annotation, job.id), job.original);
+        onLog(job.id, [...(human ? [human] : []), { kind: 'polish_proposed', at: Date.now(), text: outcome.text, ...source }]);
+        updateItem(job.id, { status: 'ready', proposal: outcome.text, suggested: outcome.text });
+      },
+    });
+    if (!controller.signal.aborted) setRunning(false);
+  }
+
+  function stop() {
+    abortRef.current?.abort();
+    setRunning(false);
+    setItems((prev) => prev.filter((it) => it.status !== 'queued'));
+  }
+
+  function accept(targets: BatchItem[]) {
+    if (targets.length === 0) return;
+    for (const it of targets) {
+      onLog(it.job.id, [{ kind: 'polish_accepted', at: Date.now(), text: it.proposal.trim(), edited: it.proposal !== it.suggested }]);
+    }
+    onAccept(targets.map((it) => toPolishUpdate(it.job, it.proposal.trim())));
+    const ids = new Set(targets.map((it) => it.job.id));
+    setItems((prev) => prev.map((it) => (ids.has(it.job.id) ? { ...it, status: 'accepted', editing: false } : it)));
+  }
+
+  function reject(it: BatchItem) {
+    onLog(it.job.id, [{ kind: 'polish_rejected', at: Date.now(), text: it.job.original }]);
+    updateItem(it.job.id, { status: 'rejected', editing: false });
+  }
+
+  const ready = items.filter((it) => it.status === 'ready' && it.proposal.trim());
+  const settled = items.filter((it) => it.status !== 'queued').length;
+
+  return (
+    <div style={{ marginBottom: '1.5rem' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.75rem' }}>
+        <p className="label" style={{ margin: 0 }}>STYLE CLEAN-UP</p>
+        <div style={{ display: 'flex', gap: '0.75rem', alignItems: 'center' }}>
+          {undoLabel && (
+            <button className="btn-link" style={{ fontSize: '0.75rem' }} onClick={onUndo}>
+              Undo: {undoLabel}
+            </button>
+          )}
+          {running ? (
+            <>
+              <span style={{ fontFamily: 'var(--font-mono)', fontSize: '0.75rem', color: 'var(--text-muted)' }}>
+                Cleaning… {settled}/{items.length}
+              </span>
+              <button className="btn-ghost btn-small" onClick={stop}>Stop</button>
+            </>
+          ) : (
+            <button className="btn-ghost btn-small" disabled={pendingJobs.length === 0} onClick={polishAll}>
+              Polish all ✦ ({pendingJobs.length})
+            </button>
+          )}
+        </div>
+      </div>
+
+      {items.length === 0 && pendingJobs.length === 0 && (
+        <p style={{ margin: 0, fontFamily: 'var(--font-mono)', fontSize: '0.75rem', color: 'var(--text-dim)' }}>
+          Every field has been cleaned up.
+        </p>
+      )}
+
+      {ready.length > 1 && !running && (
+        <div className="lint-toolbar">
+          <button className="btn-link" style={{ fontSize: '0.75rem' }} onClick={() => accept(ready)}>
+            Accept all remaining ({ready.length})
+          </button>
+        </div>
+      )}
+
+      {items.map((it) => (
+        <div key={it.job.id} className="review-entry">
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', gap: '0.75rem' }}>
+            <p className="label" style={{ marginBottom: '0.25rem', fontSize: '0.6875rem' }}>{it.job.label}</p>
+            <span style={{ fontFamily: 'var(--font-mono)', fontSize: '0.6875rem', color: 'var(--text-dim)' }}>
+              {it.status === 'queued' && 'waiting…'}
+              {it.status === 'accepted' && <span style={{ color: 'var(--success)' }}>✓ accepted</span>}
+              {it.status === 'rejected' && 'kept original'}
+            </span>
+          </div>
+
+          {it.status === 'failed' && (
+            <p style={{ margin: 0, color: 'var(--error)', fontFamily: 'var(--font-mono)', fontSize: '0.75rem' }}>
+              {it.error} — your notes were kept
+            </p>
+          )}
+
+          {it.status === 'ready' && (
+            <>
+              <p className="polish-word-diff">
+                {wordDiff(it.job.original, it.proposal).map((part, i) =>
+                  part.kind === 'same' ? <span key={i}>{part.text}</span>
+                  : part.kind === 'added' ? <ins key={i}>{part.text}</ins>
+                  : <del key={i}>{part.text}</del>
+                )}
+              </p>
+              {it.editing && (
+                <textarea
+                  value={it.proposal}
+                  onChange={(e) => updateItem(it.job.id, { proposal: e.target.value })}
+                  className="text-area"
+                  style={{ minHeight: '4rem', fontSize: '0.875rem', marginTop: '0.5rem' }}
+                />
+              )}
+              <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.5rem' }}>
+                <button className="btn-ghost btn-small" onClick={() => reject(it)}>
+                  Keep original
+                </button>
+                <button className="btn-ghost btn-small" onClick={() => updateItem(it.job.id, { editing: !it.editing })}>
+                  {it.editing ? 'Done editing' : 'Edit'}
+                </button>
+                <button className="btn-primary btn-small" disabled={!it.proposal.trim()} onClick={() => accept([it])}>
+                  Accept
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -18,6 +18,7 @@ export interface DictationState {
   capturedWasRunning: boolean;
   noSpeechHint: boolean;
   error?: string;
+  transcribeAfter?: string;  // backend label when the recording is transcribed once it stops
 }
 
 export const INITIAL_DICTATION: DictationState = {
@@ -135,10 +136,12 @@ export function DictationOverlay({
           <p className="label" style={{ color: 'var(--error)', marginBottom: '0.5rem' }}>● RECORDING…</p>
           <MicLevelMeter stream={micStream} />
           <p style={{ fontFamily: 'var(--font-mono)', fontSize: '0.68rem', color: 'var(--text-dim)', letterSpacing: '0.06em', marginBottom: '0.25rem' }}>
-            LIVE TRANSCRIPT (BROWSER SPEECH RECOGNITION)
+            {state.transcribeAfter
+              ? `TRANSCRIBED WHEN YOU STOP (${state.transcribeAfter.toUpperCase()})`
+              : 'LIVE TRANSCRIPT (BROWSER SPEECH RECOGNITION)'}
           </p>
           <p style={{ color: state.transcript ? 'var(--text)' : 'var(--text-muted)', minHeight: '3rem', fontFamily: 'var(--font-serif)', lineHeight: 1.6, marginBottom: '0.5rem' }}>
-            {state.transcript || 'Listening…'}
+            {state.transcript || (state.transcribeAfter ? 'Recording…' : 'Listening…')}
           </p>
           {state.noSpeechHint && !state.transcript && (
             <p style={{ fontFamily: 'var(--font-mono)', fontSize: '0.75rem', color: 'var(--text-dim)', fontStyle: 'italic', marginBottom: '0.75rem' }}>
@@ -151,7 +154,9 @@ export function DictationOverlay({
 
       {state.status === 'finalizing' && (
         <div className="dictation-card">
-          <p className="label" style={{ color: 'var(--amber)', marginBottom: '0.75rem' }}>⏳ FINALIZING RECORDING…</p>
+          <p className="label" style={{ color: 'var(--amber)', marginBottom: '0.75rem' }}>
+            {state.transcribeAfter ? '⏳ TRANSCRIBING…' : '⏳ FINALIZING RECORDING…'}
+          </p>
         </div>
       )}
 
@@ -160,7 +165,7 @@ export function DictationOverlay({
           <p className="label" style={{ color: 'var(--success)', marginBottom: '0.75rem' }}>AUDIO SAVED ✓</p>
           {!state.transcript && (
             <p style={{ fontFamily: 'var(--font-mono)', fontSize: '0.8rem', color: 'var(--text-muted)', fontStyle: 'italic' }}>
-              Audio saved — no transcript captured
+              {state.error ? `Audio saved — ${state.error}` : 'Audio saved — no transcript captured'}
             </p>
           )}
         </div>
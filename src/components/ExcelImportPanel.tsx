@@ -0,0 +1,243 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { TrackAnnotation } from '../types';
+import { importAnnotationsFromExcel, diffImport } from '../lib/excelImport';
+import type { TrackImportDiff } from '../lib/excelImport';
+import { getTemplateProfile } from '../lib/templateProfiles';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+interface Props {
+  annotations: Record<number, TrackAnnotation>;
+  templateProfileId: string;
+  onMerge: (imported: TrackAnnotation[]) => void;
+  onClose: () => void;
+}
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+export function ExcelImportPanel({ annotations, templateProfileId, onMerge, onClose }: Props) {
+  const [status, setStatus] = useState<'idle' | 'loading' | 'ready' | 'error'>('idle');
+  const [error, setError] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [imported, setImported] = useState<TrackAnnotation[]>([]);
+  const [diffs, setDiffs] = useState<TrackImportDiff[]>([]);
+  const [unmatched, setUnmatched] = useState<string[]>([]);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+
+  // Close on Escape
+  const handleKeyDown = useCallback(
+    (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); },
+    [onClose]
+  );
+  useEffect(() => {
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [handleKeyDown]);
+
+  async function handleFile(file: File) {
+    setFileName(file.name);
+    setStatus('loading');
+    setError('');
+    try {
+      const buffer = await file.arrayBuffer();
+      const result = await importAnnotationsFromExcel(
+        buffer,
+        annotations,
+        getTemplateProfile(templateProfileId)
+      );
+      const d = diffImport(annotations, result.imported);
+      setImported(result.imported);
+      setDiffs(d);
+      setUnmatched(result.unmatchedSheets);
+      // Pre-select every track that actually changes
+      setSelected(new Set(d.filter((x) => x.changes.length > 0).map((x) => x.trackId)));
+      setStatus('ready');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read workbook');
+      setStatus('error');
+    }
+  }
+
+  function toggle(trackId: number) {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(trackId)) next.delete(trackId);
+      else next.add(trackId);
+      return next;
+    });
+  }
+
+  function handleMerge() {
+    onMerge(imported.filter((a) => selected.has(a.track.id)));
+    onClose();
+  }
+
+  // ── Render ───────────────────────────────────────────────────────────────
+
+  return (
+    <div style={styles.overlay} onClick={onClose}>
+      <div style={styles.panel} onClick={(e) => e.stopPropagation()}>
+        <button style={styles.closeBtn} onClick={onClose} aria-label="Close import">✕</button>
+        <p style={styles.title}>IMPORT WORKBOOK</p>
+        <p style={styles.subtitle}>
+          Load an exported or reviewer-corrected TuneTag workbook. Nothing is changed until you merge.
+        </p>
+
+        <input
+          type="file"
+          accept=".xlsx"
+          onChange={(e) => { const f = e.target.files?.[0]; if (f) handleFile(f); }}
+          style={{ marginBottom: '1rem', color: 'var(--text-muted)', fontSize: '0.8rem' }}
+        />
+
+        {status === 'loading' && <p style={styles.note}>Reading {fileName}…</p>}
+        {status === 'error' && <p style={{ ...styles.note, color: 'var(--error)' }}>{error}</p>}
+
+        {status === 'ready' && (
+          <>
+            {diffs.length === 0 && (
+              <p style={styles.note}>No annotated track sheets found in {fileName}.</p>
+            )}
+            {unmatched.length > 0 && (
+              <p style={styles.note}>Ignored sheets: {unmatched.join(', ')}</p>
+            )}
+
+            {diffs.map((d) => (
+              <div key={d.trackId} style={styles.trackBlock}>
+                <label style={styles.trackHeader}>
+                  <input
+                    type="checkbox"
+                    checked={selected.has(d.trackId)}
+                    disabled={d.changes.length === 0}
+                    onChange={() => toggle(d.trackId)}
+                  />
+                  <span style={{ color: 'var(--amber)' }}>TRACK {d.trackId}</span>
+                  <span style={{ color: 'var(--text-muted)' }}>{d.trackName}</span>
+                </label>
+                {d.changes.length === 0 ? (
+                  <p style={styles.note}>Identical to the current session.</p>
+                ) : (
+                  d.changes.map((c, i) => (
+                    <div key={i} style={styles.change}>
+                      <p style={styles.changeField}>{c.field}</p>
+                      <p style={styles.before}>{c.before || '—'}</p>
+                      <p style={styles.after}>{c.after || '—'}</p>
+                    </div>
+                  ))
+                )}
+              </div>
+            ))}
+
+            <button
+              className="btn-primary"
+              disabled={selected.size === 0}
+              onClick={handleMerge}
+              style={{ width: '100%', marginTop: '0.5rem' }}
+            >
+              MERGE {selected.size} TRACK{selected.size === 1 ? '' : 'S'}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ─── Styles ───────────────────────────────────────────────────────────────────
+
+const styles = {
+  overlay: {
+    position: 'fixed' as const,
+    inset: 0,
+    zIndex: 190,
+    background: 'rgba(0,0,0,0.75)',
+    backdropFilter: 'blur(3px)',
+    display: 'flex',
+    alignItems: 'flex-start',
+    justifyContent: 'center',
+    overflowY: 'auto' as const,
+    padding: '2rem 1rem 3rem',
+  },
+  panel: {
+    position: 'relative' as const,
+    width: '100%',
+    maxWidth: '720px',
+    background: 'var(--surface)',
+    border: '1px solid var(--border-active)',
+    borderRadius: 'var(--radius)',
+    padding: '2rem',
+  },
+  closeBtn: {
+    position: 'absolute' as const,
+    top: '1rem',
+    right: '1rem',
+    background: 'transparent',
+    border: '1px solid var(--border-active)',
+    borderRadius: '4px',
+    color: 'var(--text-muted)',
+    fontFamily: 'var(--font-mono)',
+    fontSize: '0.75rem',
+    width: '28px',
+    height: '28px',
+    cursor: 'pointer',
+    lineHeight: 1,
+  },
+  title: {
+    fontFamily: 'var(--font-mono)',
+    fontSize: '0.8125rem',
+    color: 'var(--amber)',
+    letterSpacing: '0.12em',
+    margin: '0 0 0.375rem',
+    paddingRight: '2rem',
+  },
+  subtitle: {
+    fontFamily: 'var(--font-serif)',
+    fontSize: '0.8rem',
+    color: 'var(--text-dim)',
+    margin: '0 0 1.5rem',
+  },
+  note: {
+    fontFamily: 'var(--font-mono)',
+    fontSize: '0.75rem',
+    color: 'var(--text-dim)',
+    margin: '0 0 0.75rem',
+  },
+  trackBlock: {
+    borderBottom: '1px solid var(--border)',
+    paddingBottom: '1rem',
+    marginBottom: '1rem',
+  },
+  trackHeader: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '0.5rem',
+    fontFamily: 'var(--font-mono)',
+    fontSize: '0.78rem',
+    marginBottom: '0.625rem',
+    cursor: 'pointer',
+  },
+  change: {
+    marginBottom: '0.625rem',
+    paddingLeft: '1.5rem',
+  },
+  changeField: {
+    fontFamily: 'var(--font-mono)',
+    fontSize: '0.68rem',
+    letterSpacing: '0.06em',
+    color: 'var(--text-dim)',
+    margin: '0 0 0.125rem',
+  },
+  before: {
+    fontFamily: 'var(--font-serif)',
+    fontSize: '0.8125rem',
+    color: 'var(--error)',
+    textDecoration: 'line-through',
+    margin: '0 0 0.125rem',
+  },
+  after: {
+    fontFamily: 'var(--font-serif)',
+    fontSize: '0.8125rem',
+    color: 'var(--success)',
+    margin: 0,
+  },
+};
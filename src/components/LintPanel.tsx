@@ -1,42 +1,106 @@
-import type { LintResult, Phase } from '../types';
+import type { LintFix, LintIssue, LintResult, Phase } from '../types';
+import { getLintRule } from '../lib/lintRules';
 
 interface Props {
   result: LintResult;
   onNavigate?: (phase: Phase) => void;
   onExport?: () => void;
   exporting?: boolean;
+  exportBlocked?: boolean;  // e.g. template warnings not yet acknowledged
+  onApplyFixes?: (fixes: LintFix[]) => void;
+  undoFixLabel?: string | null;  // label of the latest undoable lint fix, if any
+  onUndoFix?: () => void;
 }
 
-export function LintPanel({ result, onNavigate, onExport, exporting }: Props) {
+/** Groups issues by rule, keeping the order each rule first appears in. */
+function groupByRule(issues: LintIssue[]): Array<[string, LintIssue[]]> {
+  const map = new Map<string, LintIssue[]>();
+  for (const issue of issues) {
+    if (!map.has(issue.ruleId)) map.set(issue.ruleId, []);
+    map.get(issue.ruleId)!.push(issue);
+  }
+  return Array.from(map.entries());
+}
+
+export function LintPanel({
+  result,
+  onNavigate,
+  onExport,
+  exporting,
+  exportBlocked,
+  onApplyFixes,
+  undoFixLabel,
+  onUndoFix,
+}: Props) {
   const { issues, canExport } = result;
+  const safeFixes = issues.flatMap((i) => i.fixes ?? []).filter((f) => f.safe);
+
+  const undoButton = undoFixLabel && onUndoFix && (
+    <button className="btn-link" style={{ fontSize: '0.75rem' }} onClick={onUndoFix}>
+      ↩ Undo: {undoFixLabel}
+    </button>
+  );
 
   if (issues.length === 0) {
     return (
       <div className="lint-panel lint-clean">
         <span style={{ fontSize: '1.25rem' }}>✓</span>
-        <span>Ready to export</span>
+        <span style={{ flex: 1 }}>Ready to export</span>
+        {undoButton}
       </div>
     );
   }
 
   return (
     <div className="lint-panel">
+      {onApplyFixes && (safeFixes.length > 0 || undoButton) && (
+        <div className="lint-toolbar">
+          {undoButton}
+          {safeFixes.length > 0 && (
+            <button className="btn-ghost btn-small" onClick={() => onApplyFixes(safeFixes)}>
+              APPLY ALL SAFE FIXES ({safeFixes.length})
+            </button>
+          )}
+        </div>
+      )}
+
       <div className="lint-issues">
-        {issues.map((issue, i) => (
-          <div key={i} className={`lint-issue lint-${issue.severity}`}>
-            <span className="lint-icon">{issue.severity === 'error' ? '●' : '◆'}</span>
-            <div className="lint-body">
-              <span className="lint-field">{issue.field}</span>
-              <span className="lint-message">{issue.message}</span>
+        {groupByRule(issues).map(([ruleId, group]) => (
+          <div key={ruleId} className="lint-group">
+            <div className="lint-group-header">
+              <span className="lint-rule-id">{ruleId}</span>
+              <span>{getLintRule(ruleId)?.title ?? ''}</span>
+              {group.length > 1 && <span>×{group.length}</span>}
             </div>
-            {issue.severity === 'error' && issue.phase && onNavigate && (
-              <button
-                className="btn-link lint-fix"
-                onClick={() => onNavigate(issue.phase!)}
-              >
-                Fix this
-              </button>
-            )}
+            {group.map((issue, i) => (
+              <div key={i} className={`lint-issue lint-${issue.severity}`}>
+                <span className="lint-icon">{issue.severity === 'error' ? '●' : '◆'}</span>
+                <div className="lint-body">
+                  <span className="lint-field">{issue.field}</span>
+                  <span className="lint-message">{issue.message}</span>
+                  {onApplyFixes && issue.fixes?.map((fix, j) => (
+                    <div key={j} className="lint-fix-preview">
+                      <span style={{ flex: 1 }}>→ {fix.preview}</span>
+                      <button
+                        className="btn-link"
+                        onClick={() => onApplyFixes([fix])}
+                        title={fix.safe ? 'Mechanical fix — meaning unchanged' : 'Check the result after applying'}
+                      >
+                        Apply fix: {fix.label}
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                {issue.severity === 'error' && issue.phase && onNavigate && (
+                  <button
+                    className="btn-link lint-fix"
+                    onClick={() => onNavigate(issue.phase!)}
+                  >
+                    Fix this
+                  </button>
+                )}
+              </div>
+            ))}
           </div>
         ))}
       </div>
@@ -46,7 +110,7 @@ export function LintPanel({ result, onNavigate, onExport, exporting }: Props) {
           <button
             className="btn-primary"
             onClick={onExport}
-            disabled={exporting}
+            disabled={exporting || exportBlocked}
             style={{ width: '100%' }}
           >
             {exporting ? 'Preparing...' : '⬇ DOWNLOAD WORKBOOK'}
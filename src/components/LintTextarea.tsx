@@ -0,0 +1,96 @@
+import { useMemo, useState } from 'react';
+import type { CSSProperties, ChangeEvent, RefObject } from 'react';
+import type { LintSpan } from '../lib/lintAnnotation';
+
+interface Props {
+  value: string;
+  onChange: (e: ChangeEvent<HTMLTextAreaElement>) => void;
+  spans: LintSpan[];
+  textareaRef?: RefObject<HTMLTextAreaElement>;
+  placeholder?: string;
+  style?: CSSProperties;   // applied to the textarea
+}
+
+interface Segment {
+  start: number;
+  end: number;
+  spans: LintSpan[];       // empty for plain text
+}
+
+/** Cuts the text at every span boundary so overlapping spans render as one mark per piece. */
+function toSegments(length: number, spans: LintSpan[]): Segment[] {
+  const cuts = new Set([0, length]);
+  for (const s of spans) {
+    cuts.add(Math.max(0, Math.min(length, s.start)));
+    cuts.add(Math.max(0, Math.min(length, s.end)));
+  }
+  const points = Array.from(cuts).sort((a, b) => a - b);
+  return points.slice(0, -1).map((start, i) => {
+    const end = points[i + 1];
+    return { start, end, spans: spans.filter((s) => s.start < end && s.end > start) };
+  });
+}
+
+/**
+ * A textarea with live lint highlighting. A transparent copy of the text sits
+ * on top with the offending ranges marked; only the marks take the pointer,
+ * so hovering one explains it and clicking it puts the caret there.
+ */
+export function LintTextarea({ value, onChange, spans, textareaRef, placeholder, style }: Props) {
+  const [hovered, setHovered] = useState<LintSpan[] | null>(null);
+  const segments = useMemo(() => toSegments(value.length, spans), [value.length, spans]);
+
+  function focusAt(offset: number) {
+    const ta = textareaRef?.current;
+    if (!ta) return;
+    ta.focus();
+    ta.setSelectionRange(offset, offset);
+  }
+
+  return (
+    <div className="lint-textarea">
+      <textarea
+        ref={textareaRef}
+        value={value}
+        onChange={onChange}
+        placeholder={placeholder}
+        className="text-area"
+        style={style}
+      />
+      {spans.length > 0 && (
+        <div className="text-area lint-textarea-backdrop" aria-hidden="true">
+          {segments.map((seg) => {
+            const text = value.slice(seg.start, seg.end);
+            if (seg.spans.length === 0) return <span key={seg.start}>{text}</span>;
+            const isError = seg.spans.some((s) => s.severity === 'error');
+            return (
+              <mark
+                key={seg.start}
+                className={`lint-mark ${isError ? 'lint-mark-error' : 'lint-mark-warning'}`}
+                onMouseEnter={() => setHovered(seg.spans)}
+                onMouseLeave={() => setHovered(null)}
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  focusAt(seg.end);
+                }}
+              >
+                {text}
+              </mark>
+            );
+          })}
+          {/* Keeps a trailing newline from collapsing, so the layers stay the same height */}
+          {' '}
+        </div>
+      )}
+      {hovered && spans.length > 0 && (
+        <div className="lint-hint">
+          {hovered.map((s, i) => (
+            <div key={i}>
+              <span className="lint-rule-id">{s.ruleId}</span> {s.message}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
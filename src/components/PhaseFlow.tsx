@@ -3,6 +3,8 @@ import type { TrackAnnotation, Phase, TimelineEntry } from '../types';
 import { TAG_SUGGESTIONS, SECTION_TYPE_SHORTCUTS } from '../lib/schema';
 import { useMicMeter } from '../hooks';
 import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts';
+import { selectedBackend, browserSpeechSupported } from '../lib/transcription';
+import type { LiveRecognizer } from '../lib/transcription';
 import { WaveformScrubber } from './WaveformScrubber';
 import { SpotifyPlayer } from './SpotifyPlayer';
 
@@ -113,31 +115,30 @@ export function PhaseFlow({
   }, []);
 
   // ── Smart Dictate ──────────────────────────────────────────────────────
-  const speechSupported =
-    typeof window !== 'undefined' &&
-    ('SpeechRecognition' in window || 'webkitSpeechRecognition' in window);
+  // Streams speech as it is spoken, so only offered with a live backend
+  const [liveBackend] = useState(selectedBackend);
+  const speechSupported = liveBackend.listen !== null && browserSpeechSupported();
 
   const [smartDictateOn, setSmartDictateOn] = useState(false);
   const [speechToTextOn, setSpeechToTextOn] = useState(false);
   const [interimText, setInterimText] = useState('');
   const [finalText, setFinalText] = useState('');
   const finalFadeTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const recognitionRef = useRef<any>(null);
+  const recognitionRef = useRef<LiveRecognizer | null>(null);
 
   // Single shared recognition — handles both Smart Dictate and Speech-to-Text
   const startRecognition = useCallback(() => {
     if (!speechSupported) return;
     if (recognitionRef.current) return; // already running
 
-    const SpeechRecognitionCtor =
-      (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
-    const rec = new SpeechRecognitionCtor();
+    const rec = liveBackend.listen?.();
+    if (!rec) return;
     rec.continuous = true;
     rec.interimResults = true;
     rec.lang = 'en-US';
     recognitionRef.current = rec;
 
-    rec.onresult = (event: any) => {
+    rec.onresult = (event) => {
       let interim = '';
       for (let i = event.resultIndex; i < event.results.length; i++) {
         if (event.results[i].isFinal) {
@@ -184,7 +185,7 @@ export function PhaseFlow({
     };
 
     rec.start();
-  }, [speechSupported, smartDictateOn, speechToTextOn, elapsedSeconds, updateTimeline, trackId, annotation.timeline]);
+  }, [speechSupported, liveBackend, smartDictateOn, speechToTextOn, elapsedSeconds, updateTimeline, trackId, annotation.timeline]);
 
   const stopRecognition = useCallback(() => {
     if (recognitionRef.current) {
@@ -1,9 +1,25 @@
-import { useState, useEffect, useRef } from 'react';
-import type { TrackAnnotation, Phase, GlobalAnalysis } from '../types';
+import { useState, useEffect, useRef, useMemo } from 'react';
+import type {
+  TrackAnnotation,
+  Phase,
+  GlobalAnalysis,
+  GlobalDraft,
+  FieldRevision,
+  TimelineOverflowStrategy,
+  LintConfig,
+  LintFix,
+  UndoAction,
+  PromptsTagsLibraryState,
+} from '../types';
 import { GLOBAL_CATEGORIES } from '../lib/schema';
 import { polishText, PolishUnavailableError } from '../lib/polishText';
-import { lintAnnotation } from '../lib/lintAnnotation';
+import { quickClean, QUICK_CLEAN_PROVIDER } from '../lib/quickClean';
+import { lintAnnotation, lintTextSpans } from '../lib/lintAnnotation';
+import { getSessionTags } from '../lib/tagLibrary';
+import { draftGlobalFromTimeline, draftableCategories } from '../lib/globalDraft';
+import { globalFieldId, fieldHistory, humanRevision, aiSource } from '../lib/revisionLog';
 import { LintPanel } from './LintPanel';
+import { LintTextarea } from './LintTextarea';
 import { useKeyboardShortcuts } from '../hooks';
 
 interface Props {
@@ -13,8 +29,22 @@ interface Props {
   setCategoryIndex: (i: number) => void;
   setOnSummary: (v: boolean) => void;
   updateGlobal: (trackId: number, global: Partial<GlobalAnalysis>) => void;
+  markGlobalPolished: (trackId: number, key: keyof GlobalAnalysis) => void;
+  setGlobalDrafts: (trackId: number, drafts: Partial<Record<keyof GlobalAnalysis, GlobalDraft>>) => void;
+  dismissGlobalDraft: (trackId: number, key: keyof GlobalAnalysis) => void;
+  logRevisions: (trackId: number, fieldId: string, revisions: FieldRevision[]) => void;
   setStatus: (trackId: number, status: TrackAnnotation['status'], extra?: Partial<TrackAnnotation>) => void;
   setPhase: (p: Phase) => void;
+  timelineOverflowStrategy: TimelineOverflowStrategy;
+  maxTimelineRows: number;  // from the selected template profile
+  lintConfig: LintConfig;
+  polishPrompt: string;  // system prompt from the project's style profile
+  quickCleanWords: string[];  // filler the offline Quick clean strips, from the same profile
+  library: PromptsTagsLibraryState;
+  trackDurationSeconds: number | null;  // from the Spotify player, when known
+  applyLintFixes: (trackId: number, fixes: LintFix[]) => void;
+  undoStack: UndoAction[];
+  undoLastAction: () => void;
 }
 
 export function PhaseGlobal({
@@ -24,8 +54,22 @@ export function PhaseGlobal({
   setCategoryIndex,
   setOnSummary,
   updateGlobal,
+  markGlobalPolished,
+  setGlobalDrafts,
+  dismissGlobalDraft,
+  logRevisions,
   setStatus,
   setPhase,
+  timelineOverflowStrategy,
+  maxTimelineRows,
+  lintConfig,
+  polishPrompt,
+  quickCleanWords,
+  library,
+  trackDurationSeconds,
+  applyLintFixes,
+  undoStack,
+  undoLastAction,
 }: Props) {
   const track = annotation.track;
   const global = annotation.global as Record<string, string>;
@@ -36,21 +80,31 @@ export function PhaseGlobal({
     global[cat.key] ?? ''
   );
   const [polishStatus, setPolishStatus] = useState<'idle' | 'loading' | 'ready'>('idle');
+  const [polishMode, setPolishMode] = useState<'ai' | 'quick'>('ai');
   const [polishedText, setPolishedText] = useState('');
   const [polishCooldown, setPolishCooldown] = useState(false);
   const [polishToast, setPolishToast] = useState<string | null>(null);
   const [showLint, setShowLint] = useState(false);
+  const [drafting, setDrafting] = useState(false);
+  const [draftNotice, setDraftNotice] = useState<string | null>(null);
 
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const proposedTextRef = useRef('');
+  const fieldId = globalFieldId(cat.key as keyof GlobalAnalysis);
+  const valueSpans = useMemo(
+    () => lintTextSpans(localValue, 'global_category', lintConfig),
+    [localValue, lintConfig]
+  );
 
-  // Sync localValue when category changes
+  // Sync localValue when category changes, or on leaving the summary
+  // (a lint fix applied there may have rewritten this category)
   useEffect(() => {
     setLocalValue(global[cat.key] ?? '');
     setPolishStatus('idle');
     setPolishedText('');
     setPolishToast(null);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [categoryIndex, cat.key]);
+  }, [categoryIndex, cat.key, onSummary]);
 
   // Auto-grow textarea
   useEffect(() => {
@@ -60,7 +114,14 @@ export function PhaseGlobal({
     ta.style.height = ta.scrollHeight + 'px';
   }, [localValue]);
 
+  // Logged before the text is written, so a field with no log yet is reconstructed from its saved value
+  function logHumanText(text: string) {
+    const rev = humanRevision(fieldHistory(annotation, fieldId), text);
+    if (rev) logRevisions(track.id, fieldId, [rev]);
+  }
+
   function save() {
+    logHumanText(localValue);
     updateGlobal(track.id, { ...annotation.global, [cat.key]: localValue });
   }
 
@@ -95,14 +156,18 @@ export function PhaseGlobal({
   async function handlePolish() {
     if (!localValue.trim() || polishCooldown) return;
     setPolishStatus('loading');
+    setPolishMode('ai');
     setPolishToast(null);
+    logHumanText(localValue);
     try {
-      const result = await polishText(localValue, { type: 'global', category: cat });
+      const result = await polishText(localValue, { type: 'global', category: cat }, polishPrompt);
+      logRevisions(track.id, fieldId, [{ kind: 'polish_proposed', at: Date.now(), text: result, ...aiSource(polishPrompt) }]);
+      proposedTextRef.current = result;
       setPolishedText(result);
       setPolishStatus('ready');
     } catch (e) {
       if (e instanceof PolishUnavailableError) {
-        setPolishToast('Style clean-up unavailable — your notes were kept');
+        setPolishToast('Style clean-up unavailable — your notes were kept. Quick clean works offline.');
       } else {
         setPolishToast('Style clean-up failed — your notes were kept');
       }
@@ -112,16 +177,80 @@ export function PhaseGlobal({
     setTimeout(() => setPolishCooldown(false), 1500);
   }
 
+  // Offline, rule-based — same review step as the AI clean-up
+  function handleQuickClean() {
+    const result = quickClean(localValue, quickCleanWords);
+    if (result === localValue.trim()) {
+      setPolishToast('Quick clean found nothing to change');
+      return;
+    }
+    logHumanText(localValue);
+    logRevisions(track.id, fieldId, [{ kind: 'polish_proposed', at: Date.now(), text: result, provider: QUICK_CLEAN_PROVIDER }]);
+    proposedTextRef.current = result;
+    setPolishedText(result);
+    setPolishMode('quick');
+    setPolishToast(null);
+    setPolishStatus('ready');
+  }
+
   function acceptPolished() {
+    logRevisions(track.id, fieldId, [{
+      kind: 'polish_accepted',
+      at: Date.now(),
+      text: polishedText,
+      edited: polishedText !== proposedTextRef.current,
+    }]);
     setLocalValue(polishedText);
+    markGlobalPolished(track.id, cat.key as keyof GlobalAnalysis);
+    setPolishStatus('idle');
+    setPolishedText('');
+  }
+
+  function keepOriginal() {
+    logRevisions(track.id, fieldId, [{ kind: 'polish_rejected', at: Date.now(), text: localValue }]);
     setPolishStatus('idle');
     setPolishedText('');
   }
 
+  // Draft from timeline — only fills categories with nothing written yet
+  const currentAnnotation = { ...annotation, global: { ...annotation.global, [cat.key]: localValue } };
+  const draftableCount = annotation.timeline.length > 0 ? draftableCategories(currentAnnotation).length : 0;
+  const pendingDraft = annotation.globalDrafts?.[cat.key as keyof GlobalAnalysis];
+
+  async function handleDraftFromTimeline() {
+    if (drafting || draftableCount === 0) return;
+    save();
+    setDrafting(true);
+    setDraftNotice(null);
+    const result = await draftGlobalFromTimeline(currentAnnotation, getSessionTags(library, track.id));
+    setGlobalDrafts(track.id, result.drafts);
+    const count = Object.keys(result.drafts).length;
+    setDraftNotice(
+      count === 0
+        ? 'Not enough in the timeline to draft from yet'
+        : result.notice ?? `Drafted ${count} categor${count === 1 ? 'y' : 'ies'} — review each before using it`
+    );
+    setDrafting(false);
+  }
+
+  function applyDraft(draft: GlobalDraft) {
+    if (localValue.trim()) return;
+    logRevisions(track.id, fieldId, [{
+      kind: 'draft_accepted',
+      at: Date.now(),
+      text: draft.text,
+      ...(draft.source === 'ai' ? aiSource() : {}),
+    }]);
+    setLocalValue(draft.text);
+    updateGlobal(track.id, { ...annotation.global, [cat.key]: draft.text });
+    dismissGlobalDraft(track.id, cat.key as keyof GlobalAnalysis);
+  }
+
   // FIX #5: setLocalValue is async React state update. Call save with the
   // explicit value directly rather than relying on localValue being updated yet.
   function handleNA() {
     setLocalValue('N/A');
+    logHumanText('N/A');
     // Write 'N/A' directly — don't call save() which would read stale localValue
     updateGlobal(track.id, { ...annotation.global, [cat.key]: 'N/A' });
   }
@@ -133,7 +262,14 @@ export function PhaseGlobal({
 
   // ── SUMMARY SCREEN ──────────────────────────────────────────────────────
   if (onSummary) {
-    const lintResult = lintAnnotation(annotation);
+    const lintResult = lintAnnotation(annotation, {
+      overflowStrategy: timelineOverflowStrategy,
+      maxTimelineRows,
+      config: lintConfig,
+      tags: getSessionTags(library, track.id),
+      durationSeconds: trackDurationSeconds,
+    });
+    const latestUndo = undoStack[0];
 
     return (
       <div className="phase-container fade-in">
@@ -164,6 +300,11 @@ export function PhaseGlobal({
               <p style={{ margin: 0, color: global[c.key] ? 'var(--text)' : 'var(--text-dim)', fontFamily: 'var(--font-serif)', fontSize: '0.9375rem' }}>
                 {global[c.key] || '—'}
               </p>
+              {!global[c.key]?.trim() && annotation.globalDrafts?.[c.key] && (
+                <p style={{ margin: '0.25rem 0 0', color: 'var(--text-dim)', fontFamily: 'var(--font-mono)', fontSize: '0.75rem' }}>
+                  Unused draft: {annotation.globalDrafts[c.key]!.text}
+                </p>
+              )}
             </div>
           ))}
         </div>
@@ -173,6 +314,9 @@ export function PhaseGlobal({
             <LintPanel
               result={lintResult}
               onNavigate={(phase) => setPhase(phase)}
+              onApplyFixes={(fixes) => applyLintFixes(track.id, fixes)}
+              undoFixLabel={latestUndo?.kind === 'lint_fix' ? latestUndo.label : null}
+              onUndoFix={undoLastAction}
             />
           </div>
         )}
@@ -240,32 +384,80 @@ export function PhaseGlobal({
         </p>
       </div>
 
+      {/* Draft from timeline */}
+      {(draftableCount > 0 || drafting || draftNotice) && (
+        <div style={{ marginBottom: '0.75rem' }}>
+          {draftableCount > 0 && (
+            <button className="btn-ghost btn-small" disabled={drafting} onClick={handleDraftFromTimeline}>
+              {drafting ? 'Drafting…' : `Draft from timeline ✦ (${draftableCount})`}
+            </button>
+          )}
+          {draftNotice && (
+            <p style={{ color: 'var(--text-muted)', fontFamily: 'var(--font-mono)', fontSize: '0.75rem', marginTop: '0.25rem' }}>
+              {draftNotice}
+            </p>
+          )}
+        </div>
+      )}
+      {pendingDraft && (
+        <div className="polish-diff" style={{ marginTop: 0, marginBottom: '0.75rem', borderStyle: 'dashed' }}>
+          <p className="label" style={{ marginBottom: '0.375rem', color: 'var(--amber)', fontSize: '0.6875rem' }}>
+            DRAFT FROM TIMELINE · {pendingDraft.source === 'ai' ? 'AI' : 'TAGS'} — NOT YOUR WORDS YET
+          </p>
+          <p style={{ margin: 0, color: 'var(--text-muted)', fontSize: '0.875rem', fontFamily: 'var(--font-serif)' }}>
+            {pendingDraft.text}
+          </p>
+          {localValue.trim() && (
+            <p style={{ margin: '0.375rem 0 0', color: 'var(--text-dim)', fontFamily: 'var(--font-mono)', fontSize: '0.6875rem' }}>
+              You've already written this category — the draft won't replace it.
+            </p>
+          )}
+          <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.5rem' }}>
+            <button className="btn-ghost btn-small" onClick={() => dismissGlobalDraft(track.id, cat.key as keyof GlobalAnalysis)}>
+              Dismiss
+            </button>
+            {!localValue.trim() && (
+              <button className="btn-primary btn-small" onClick={() => applyDraft(pendingDraft)}>
+                Use draft
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Textarea */}
-      <textarea
-        ref={textareaRef}
-        value={localValue}
-        onChange={(e) => {
-          setLocalValue(e.target.value);
-          const ta = e.target;
-          ta.style.height = 'auto';
-          ta.style.height = ta.scrollHeight + 'px';
-        }}
-        placeholder="Your observation…"
-        className="text-area"
-        style={{ minHeight: '7rem', marginBottom: '0.5rem' }}
-      />
+      <div style={{ marginBottom: '0.5rem' }}>
+        <LintTextarea
+          textareaRef={textareaRef}
+          value={localValue}
+          spans={valueSpans}
+          onChange={(e) => {
+            setLocalValue(e.target.value);
+            const ta = e.target;
+            ta.style.height = 'auto';
+            ta.style.height = ta.scrollHeight + 'px';
+          }}
+          placeholder="Your observation…"
+          style={{ minHeight: '7rem' }}
+        />
+      </div>
 
       {/* Polish */}
       {localValue.trim() && (
         <div style={{ marginBottom: '0.75rem' }}>
           {polishStatus === 'idle' && (
-            <button
-              className={`btn-ghost btn-small ${polishCooldown ? 'btn-cooling' : ''}`}
-              onClick={handlePolish}
-              disabled={polishCooldown}
-            >
-              {polishCooldown ? '◌ cooling down' : 'Clean up style ✦'}
-            </button>
+            <div style={{ display: 'flex', gap: '0.5rem' }}>
+              <button
+                className={`btn-ghost btn-small ${polishCooldown ? 'btn-cooling' : ''}`}
+                onClick={handlePolish}
+                disabled={polishCooldown}
+              >
+                {polishCooldown ? '◌ cooling down' : 'Clean up style ✦'}
+              </button>
+              <button className="btn-ghost btn-small" onClick={handleQuickClean} title="Rule-based clean-up — works offline">
+                Quick clean
+              </button>
+            </div>
           )}
           {polishStatus === 'loading' && (
             <span style={{ fontFamily: 'var(--font-mono)', fontSize: '0.75rem', color: 'var(--text-muted)' }}>
@@ -279,7 +471,9 @@ export function PhaseGlobal({
                 <p style={{ color: 'var(--text-muted)', fontSize: '0.875rem', fontFamily: 'var(--font-serif)' }}>{localValue}</p>
               </div>
               <div className="polish-col">
-                <p className="label" style={{ marginBottom: '0.25rem', color: 'var(--amber)', fontSize: '0.6875rem' }}>CLEANED UP</p>
+                <p className="label" style={{ marginBottom: '0.25rem', color: 'var(--amber)', fontSize: '0.6875rem' }}>
+                  {polishMode === 'quick' ? 'QUICK CLEAN' : 'CLEANED UP'}
+                </p>
                 <textarea
                   value={polishedText}
                   onChange={(e) => setPolishedText(e.target.value)}
@@ -288,7 +482,7 @@ export function PhaseGlobal({
                 />
               </div>
               <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.5rem' }}>
-                <button className="btn-ghost btn-small" onClick={() => { setPolishStatus('idle'); setPolishedText(''); }}>
+                <button className="btn-ghost btn-small" onClick={keepOriginal}>
                   Keep original
                 </button>
                 <button className="btn-primary btn-small" onClick={acceptPolished}>
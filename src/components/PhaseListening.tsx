@@ -156,7 +156,7 @@ export function PhaseListening({
       });
       setPhase('mark_entry');
     },
-    onRecordingReady: (blob, mimeType, timestamp, transcript) => {
+    onRecordingReady: (blob, mimeType, timestamp, transcript, words) => {
       addRecording({
         id: crypto.randomUUID(),
         trackId: track.id,
@@ -167,6 +167,7 @@ export function PhaseListening({
         // Save even if transcript is empty — non-fatal transcript failure
         transcript,
         mimeType,
+        words,
       });
     },
     onOpenRecordingsPanel: () => setOpenPanelTrigger((n) => n + 1),
@@ -9,13 +9,16 @@ import type {
   TimelineEntry,
   PromptsTagsLibraryState,
   TagDef,
+  LintConfig,
+  FieldRevision,
 } from '../types';
 import {
   SECTION_TYPE_SHORTCUTS,
   NARRATIVE_PROMPTS_FIRST,
   NARRATIVE_PROMPTS_SUBSEQUENT,
 } from '../lib/schema';
-import { groupTagsByCategory } from '../lib/tagLibrary';
+import { groupTagsByCategory, getSessionTags } from '../lib/tagLibrary';
+import { suggestTags } from '../lib/tagSuggestions';
 import {
   buildAllPhraseVariants,
   WHO_SUGGESTIONS,
@@ -24,6 +27,10 @@ import {
   WHEN_SUGGESTIONS,
 } from '../lib/phraseBuilder';
 import { polishText, PolishUnavailableError } from '../lib/polishText';
+import { quickClean, QUICK_CLEAN_PROVIDER } from '../lib/quickClean';
+import { lintTextSpans } from '../lib/lintAnnotation';
+import { fieldHistory, lastLoggedText, humanRevision, aiSource } from '../lib/revisionLog';
+import { LintTextarea } from './LintTextarea';
 import { useKeyboardShortcuts } from '../hooks';
 
 interface Props {
@@ -35,6 +42,10 @@ interface Props {
   onTimerResume: () => void;
   onTimerPause: () => void;
   library: PromptsTagsLibraryState;
+  lintConfig: LintConfig;
+  polishPrompt: string;  // system prompt from the project's style profile
+  quickCleanWords: string[];  // filler the offline Quick clean strips, from the same profile
+  logRevisions: (trackId: number, fieldId: string, revisions: FieldRevision[]) => void;
 }
 
 const TIMESTAMP_RE = /^\d+:[0-5]\d$/;
@@ -79,6 +90,10 @@ export function PhaseMarkEntry({
   onTimerResume,
   onTimerPause,
   library,
+  lintConfig,
+  polishPrompt,
+  quickCleanWords,
+  logRevisions,
 }: Props) {
   const track = annotation.track;
   const timeline = annotation.timeline;
@@ -99,6 +114,10 @@ export function PhaseMarkEntry({
   const [narrative, setNarrative] = useState(draft.narrative);
   const narrativeRawRef = useRef<string>(draft.narrativeRaw || draft.narrative);
   const narrativeRef = useRef<HTMLTextAreaElement>(null);
+  const narrativeSpans = useMemo(
+    () => lintTextSpans(narrative, 'timeline_entry', lintConfig),
+    [narrative, lintConfig]
+  );
 
   // ── Tags — structured ──────────────────────────────────────────────────────
   // Effective visible tags (from enabled packs, not hidden)
@@ -146,6 +165,40 @@ export function PhaseMarkEntry({
   const groupedTags = useMemo(() => groupTagsByCategory(filteredTags), [filteredTags]);
   const isSearching = tagSearch.trim().length > 0;
 
+  // ── Tag suggestions ────────────────────────────────────────────────────────
+  const [suggestStatus, setSuggestStatus] = useState<'idle' | 'loading' | 'ready'>('idle');
+  const [suggestedTags, setSuggestedTags] = useState<TagDef[]>([]);
+  const [suggestPicked, setSuggestPicked] = useState<string[]>([]);
+  const [suggestNotice, setSuggestNotice] = useState<string | null>(null);
+
+  async function handleSuggestTags() {
+    if (!narrative.trim() || suggestStatus === 'loading') return;
+    setSuggestStatus('loading');
+    setSuggestNotice(null);
+    const result = await suggestTags({
+      narrative,
+      sectionType,
+      tags: getSessionTags(library, track.id),
+      excludeIds: selectedTagIds,
+    });
+    setSuggestedTags(result.tags);
+    setSuggestPicked(result.tags.map((t) => t.id));
+    setSuggestNotice(result.notice ?? (result.tags.length === 0 ? 'No matching tags found' : null));
+    setSuggestStatus('ready');
+  }
+
+  function applySuggestedTags() {
+    setSelectedTagIds((prev) => [...prev, ...suggestPicked.filter((id) => !prev.includes(id))]);
+    dismissSuggestedTags();
+  }
+
+  function dismissSuggestedTags() {
+    setSuggestStatus('idle');
+    setSuggestedTags([]);
+    setSuggestPicked([]);
+    setSuggestNotice(null);
+  }
+
   // ── Phrase builder ─────────────────────────────────────────────────────────
   const [phraseOpen, setPhraseOpen] = useState(false);
   const [phraseWho, setPhraseWho] = useState('');
@@ -172,10 +225,28 @@ export function PhaseMarkEntry({
   // ── Polish ─────────────────────────────────────────────────────────────────
   const [wasPolishedThisSession, setWasPolishedThisSession] = useState(false);
   const [polishStatus, setPolishStatus] = useState<'idle' | 'loading' | 'ready'>('idle');
+  const [polishMode, setPolishMode] = useState<'ai' | 'quick'>('ai');
   const [polishedText, setPolishedText] = useState('');
   const [polishCooldown, setPolishCooldown] = useState(false);
   const [polishToast, setPolishToast] = useState<string | null>(null);
 
+  // ── Revision history ───────────────────────────────────────────────────────
+  // Steps taken while the panel is open; logged on save, dropped on discard
+  const pendingRevisionsRef = useRef<FieldRevision[]>([]);
+  const proposedTextRef = useRef('');
+  const [savedHistory] = useState<FieldRevision[]>(() =>
+    draft.mode === 'edit' && draft.entryId ? fieldHistory(annotation, draft.entryId) : []
+  );
+
+  function noteHumanText(text: string) {
+    const pending = pendingRevisionsRef.current;
+    if (lastLoggedText([...savedHistory, ...pending]) === null && draft.isDictated && narrativeRawRef.current.trim()) {
+      pending.push({ kind: 'dictation', at: Date.now(), text: narrativeRawRef.current.trim() });
+    }
+    const rev = humanRevision([...savedHistory, ...pending], text);
+    if (rev) pending.push(rev);
+  }
+
   // ── Draft sync ─────────────────────────────────────────────────────────────
   const syncDraft = useCallback(() => {
     setMarkEntryDraft({
@@ -241,7 +312,9 @@ export function PhaseMarkEntry({
   async function handlePolish() {
     if (!narrative.trim() || polishCooldown) return;
     setPolishStatus('loading');
+    setPolishMode('ai');
     setPolishToast(null);
+    noteHumanText(narrative.trim());
     try {
       const result = await polishText(narrative, {
         type: 'timeline',
@@ -250,13 +323,15 @@ export function PhaseMarkEntry({
         prev: prevEntry
           ? { sectionType: prevEntry.sectionType, narrative: prevEntry.narrative }
           : undefined,
-      });
+      }, polishPrompt);
+      pendingRevisionsRef.current.push({ kind: 'polish_proposed', at: Date.now(), text: result, ...aiSource(polishPrompt) });
+      proposedTextRef.current = result;
       setPolishedText(result);
       setPolishStatus('ready');
     } catch (e) {
       setPolishToast(
         e instanceof PolishUnavailableError
-          ? 'Style clean-up unavailable — your notes were kept'
+          ? 'Style clean-up unavailable — your notes were kept. Quick clean works offline.'
           : 'Style clean-up failed — your notes were kept'
       );
       setPolishStatus('idle');
@@ -265,7 +340,29 @@ export function PhaseMarkEntry({
     setTimeout(() => setPolishCooldown(false), 1500);
   }
 
+  // Offline, rule-based — same review step as the AI clean-up
+  function handleQuickClean() {
+    const result = quickClean(narrative, quickCleanWords);
+    if (result === narrative.trim()) {
+      setPolishToast('Quick clean found nothing to change');
+      return;
+    }
+    noteHumanText(narrative.trim());
+    pendingRevisionsRef.current.push({ kind: 'polish_proposed', at: Date.now(), text: result, provider: QUICK_CLEAN_PROVIDER });
+    proposedTextRef.current = result;
+    setPolishedText(result);
+    setPolishMode('quick');
+    setPolishToast(null);
+    setPolishStatus('ready');
+  }
+
   function acceptPolished() {
+    pendingRevisionsRef.current.push({
+      kind: 'polish_accepted',
+      at: Date.now(),
+      text: polishedText.trim(),
+      edited: polishedText !== proposedTextRef.current,
+    });
     setNarrative(polishedText);
     setWasPolishedThisSession(true);
     setPolishStatus('idle');
@@ -273,6 +370,7 @@ export function PhaseMarkEntry({
   }
 
   function keepOriginal() {
+    pendingRevisionsRef.current.push({ kind: 'polish_rejected', at: Date.now(), text: narrative.trim() });
     setPolishStatus('idle');
     setPolishedText('');
   }
@@ -306,6 +404,9 @@ export function PhaseMarkEntry({
     }
     newTimeline.sort((a, b) => parseToSeconds(a.timestamp) - parseToSeconds(b.timestamp));
 
+    // Before updateTimeline, so an entry with no log yet is reconstructed from its saved text
+    noteHumanText(entry.narrative);
+    logRevisions(track.id, entry.id, pendingRevisionsRef.current);
     updateTimeline(track.id, newTimeline);
     setMarkEntryDraft(null);
     setPhase('listening');
@@ -441,9 +542,10 @@ export function PhaseMarkEntry({
               </p>
             ))}
           </div>
-          <textarea
-            ref={narrativeRef}
+          <LintTextarea
+            textareaRef={narrativeRef}
             value={narrative}
+            spans={narrativeSpans}
             onChange={(e) => {
               setNarrative(e.target.value);
               const ta = e.target;
@@ -451,7 +553,6 @@ export function PhaseMarkEntry({
               ta.style.height = ta.scrollHeight + 'px';
             }}
             placeholder="Type rough notes freely…"
-            className="text-area"
             style={{ minHeight: '6rem' }}
           />
 
@@ -459,13 +560,18 @@ export function PhaseMarkEntry({
           {narrative.trim() && (
             <div style={{ marginTop: '0.5rem' }}>
               {polishStatus === 'idle' && (
-                <button
-                  className={`btn-ghost btn-small ${polishCooldown ? 'btn-cooling' : ''}`}
-                  onClick={handlePolish}
-                  disabled={polishCooldown}
-                >
-                  {polishCooldown ? '◌ cooling down' : 'Clean up style ✦'}
-                </button>
+                <div style={{ display: 'flex', gap: '0.5rem' }}>
+                  <button
+                    className={`btn-ghost btn-small ${polishCooldown ? 'btn-cooling' : ''}`}
+                    onClick={handlePolish}
+                    disabled={polishCooldown}
+                  >
+                    {polishCooldown ? '◌ cooling down' : 'Clean up style ✦'}
+                  </button>
+                  <button className="btn-ghost btn-small" onClick={handleQuickClean} title="Rule-based clean-up — works offline">
+                    Quick clean
+                  </button>
+                </div>
               )}
               {polishStatus === 'loading' && (
                 <span style={{ fontFamily: 'var(--font-mono)', fontSize: '0.75rem', color: 'var(--text-muted)' }}>
@@ -479,7 +585,9 @@ export function PhaseMarkEntry({
                     <p style={{ color: 'var(--text-muted)', fontSize: '0.875rem', fontFamily: 'var(--font-serif)' }}>{narrative}</p>
                   </div>
                   <div className="polish-col">
-                    <p className="label" style={{ marginBottom: '0.375rem', color: 'var(--amber)' }}>CLEANED UP</p>
+                    <p className="label" style={{ marginBottom: '0.375rem', color: 'var(--amber)' }}>
+                      {polishMode === 'quick' ? 'QUICK CLEAN' : 'CLEANED UP'}
+                    </p>
                     <textarea
                       value={polishedText}
                       onChange={(e) => setPolishedText(e.target.value)}
@@ -638,6 +746,54 @@ export function PhaseMarkEntry({
             />
           </div>
 
+          {/* Suggested tags from the notes */}
+          {narrative.trim() && (
+            <div style={{ marginTop: '0.5rem' }}>
+              {suggestStatus === 'idle' && (
+                <button className="btn-ghost btn-small" onClick={handleSuggestTags}>
+                  Suggest tags ✦
+                </button>
+              )}
+              {suggestStatus === 'loading' && (
+                <span style={{ fontFamily: 'var(--font-mono)', fontSize: '0.75rem', color: 'var(--text-muted)' }}>
+                  Reading your notes…
+                </span>
+              )}
+              {suggestStatus === 'ready' && (
+                <div className="polish-diff">
+                  <p className="label" style={{ marginBottom: '0.375rem', color: 'var(--amber)' }}>SUGGESTED TAGS</p>
+                  {suggestedTags.length > 0 && (
+                    <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.375rem' }}>
+                      {suggestedTags.map((tag) => (
+                        <TagChip
+                          key={tag.id}
+                          tag={tag}
+                          selected={suggestPicked.includes(tag.id)}
+                          onToggle={() => setSuggestPicked((prev) =>
+                            prev.includes(tag.id) ? prev.filter((x) => x !== tag.id) : [...prev, tag.id]
+                          )}
+                        />
+                      ))}
+                    </div>
+                  )}
+                  <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.5rem' }}>
+                    <button className="btn-ghost btn-small" onClick={dismissSuggestedTags}>Dismiss</button>
+                    {suggestedTags.length > 0 && (
+                      <button className="btn-primary btn-small" disabled={suggestPicked.length === 0} onClick={applySuggestedTags}>
+                        Add {suggestPicked.length} tag{suggestPicked.length === 1 ? '' : 's'}
+                      </button>
+                    )}
+                  </div>
+                </div>
+              )}
+              {suggestNotice && (
+                <p style={{ color: 'var(--text-muted)', fontFamily: 'var(--font-mono)', fontSize: '0.75rem', marginTop: '0.25rem' }}>
+                  {suggestNotice}
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Tag chips — shown when open OR searching */}
           {(tagsOpen || isSearching) && (
             <div style={{ marginTop: '0.625rem' }}>
@@ -6,6 +6,12 @@ import type {
   PromptsTagsLibraryState,
   UndoAction,
   TagPackImport,
+  LintConfig,
+  LintRuleConfig,
+  LintSeverity,
+  LintOptionValue,
+  StyleProfile,
+  StyleRule,
 } from '../types';
 import {
   getLibraryTags,
@@ -14,6 +20,10 @@ import {
 } from '../lib/tagLibrary';
 import { parseTagPackJson, AI_IMPORT_PROMPT } from '../lib/tagImport';
 import { BUILTIN_PACKS } from '../lib/tagPacks';
+import { LINT_RULES, LINT_TARGET_LABELS } from '../lib/lintRules';
+import { resolveRuleOptions, isRuleEnabled } from '../lib/lintAnnotation';
+import { buildPolishSystemPrompt, polishInstructions, styleProfileToJson, parseStyleProfileJson, quickCleanWords } from '../lib/styleProfiles';
+import { downloadBlob } from '../lib/excelExport';
 
 // ─── Props ────────────────────────────────────────────────────────────────────
 
@@ -28,16 +38,25 @@ interface Props {
   togglePackEnabled: (packId: string) => void;
   importTagPack: (raw: TagPackImport) => { added: number; merged: number; errors: string[] };
   undoLastAction: () => void;
+  lintConfig: LintConfig;
+  setLintRuleConfig: (ruleId: string, patch: LintRuleConfig | null) => void;
+  resetLintConfig: () => void;
+  styleProfileId: string;
+  setStyleProfileId: (id: string) => void;
+  saveStyleProfile: (profile: StyleProfile) => void;
+  deleteStyleProfile: (id: string) => void;
 }
 
 // ─── Tab type ─────────────────────────────────────────────────────────────────
 
-type Tab = 'library' | 'packs' | 'import';
+type Tab = 'library' | 'packs' | 'import' | 'rules' | 'styles';
 
 const TAB_LABELS: Record<Tab, string> = {
   library: 'Tag Library',
   packs: 'Genre Packs',
   import: 'Import',
+  rules: 'Lint Rules',
+  styles: 'Style Profiles',
 };
 
 const TAG_TYPES: TagType[] = [
@@ -57,6 +76,13 @@ export function PhasePromptsTags({
   togglePackEnabled,
   importTagPack,
   undoLastAction,
+  lintConfig,
+  setLintRuleConfig,
+  resetLintConfig,
+  styleProfileId,
+  setStyleProfileId,
+  saveStyleProfile,
+  deleteStyleProfile,
 }: Props) {
   const [activeTab, setActiveTab] = useState<Tab>('library');
 
@@ -115,6 +141,22 @@ export function PhasePromptsTags({
         {activeTab === 'import' && (
           <ImportTab importTagPack={importTagPack} />
         )}
+        {activeTab === 'rules' && (
+          <LintRulesTab
+            lintConfig={lintConfig}
+            setLintRuleConfig={setLintRuleConfig}
+            resetLintConfig={resetLintConfig}
+          />
+        )}
+        {activeTab === 'styles' && (
+          <StyleProfilesTab
+            library={library}
+            styleProfileId={styleProfileId}
+            setStyleProfileId={setStyleProfileId}
+            saveStyleProfile={saveStyleProfile}
+            deleteStyleProfile={deleteStyleProfile}
+          />
+        )}
       </div>
     </div>
   );
@@ -454,6 +496,417 @@ function ImportTab({
   );
 }
 
+// ─── Lint Rules Tab ───────────────────────────────────────────────────────────
+
+function LintRulesTab({
+  lintConfig,
+  setLintRuleConfig,
+  resetLintConfig,
+}: {
+  lintConfig: LintConfig;
+  setLintRuleConfig: (ruleId: string, patch: LintRuleConfig | null) => void;
+  resetLintConfig: () => void;
+}) {
+  const overridden = Object.keys(lintConfig.rules).length;
+
+  function setOption(ruleId: string, key: string, raw: string, defaultValue: LintOptionValue) {
+    const value: LintOptionValue =
+      typeof defaultValue === 'number' ? Number(raw) || 0 : raw;
+    setLintRuleConfig(ruleId, { options: { [key]: value } });
+  }
+
+  return (
+    <div style={styles.tabContent}>
+      <p style={styles.helpText}>
+        Choose which checks run before export in this project. Overrides are saved with the session.
+      </p>
+
+      {LINT_RULES.map((rule) => {
+        const cfg = lintConfig.rules[rule.id];
+        const enabled = isRuleEnabled(rule, lintConfig);
+        const options = resolveRuleOptions(rule, lintConfig);
+        return (
+          <div
+            key={rule.id}
+            style={{
+              ...styles.packRow,
+              borderColor: cfg ? 'var(--amber)' : 'var(--border)',
+              opacity: enabled ? 1 : 0.55,
+            }}
+          >
+            <div style={{ flex: 1 }}>
+              <div style={styles.packLabel}>{rule.title}</div>
+              <div style={styles.packMeta}>
+                {rule.id} · {LINT_TARGET_LABELS[rule.target]}
+              </div>
+              {Object.entries(rule.defaultOptions).map(([key, def]) => (
+                <label key={key} style={{ ...styles.packMeta, display: 'flex', gap: '0.5rem', alignItems: 'center', marginTop: '0.375rem' }}>
+                  {key}
+                  <input
+                    type={typeof def === 'number' ? 'number' : 'text'}
+                    value={String(options[key])}
+                    onChange={(e) => setOption(rule.id, key, e.target.value, def)}
+                    style={{ ...styles.searchInput, width: typeof def === 'number' ? 90 : 240, padding: '0.25rem 0.5rem' }}
+                  />
+                </label>
+              ))}
+            </div>
+            <select
+              value={cfg?.severity ?? rule.defaultSeverity}
+              onChange={(e) => setLintRuleConfig(rule.id, { severity: e.target.value as LintSeverity })}
+              style={styles.select}
+              disabled={!enabled}
+            >
+              <option value="error">error</option>
+              <option value="warning">warning</option>
+            </select>
+            <button
+              className={enabled ? 'btn-primary btn-small' : 'btn-ghost btn-small'}
+              onClick={() => setLintRuleConfig(rule.id, { enabled: !enabled })}
+            >
+              {enabled ? '✓ ON' : 'OFF'}
+            </button>
+            {cfg && (
+              <button
+                className="btn-ghost btn-small"
+                onClick={() => setLintRuleConfig(rule.id, null)}
+                title="Restore this rule's defaults"
+              >
+                RESET
+              </button>
+            )}
+          </div>
+        );
+      })}
+
+      <button
+        className="btn-ghost"
+        onClick={resetLintConfig}
+        disabled={overridden === 0}
+        style={{ marginTop: '0.5rem', opacity: overridden ? 1 : 0.4 }}
+      >
+        RESET ALL RULES ({overridden} overridden)
+      </button>
+    </div>
+  );
+}
+
+// ─── Style Profiles Tab ───────────────────────────────────────────────────────
+
+// Lint rules with thresholds a style rule can set
+const TUNABLE_LINT_RULES = LINT_RULES.filter((r) => Object.keys(r.defaultOptions).length > 0);
+
+function StyleProfilesTab({
+  library,
+  styleProfileId,
+  setStyleProfileId,
+  saveStyleProfile,
+  deleteStyleProfile,
+}: {
+  library: PromptsTagsLibraryState;
+  styleProfileId: string;
+  setStyleProfileId: (id: string) => void;
+  saveStyleProfile: (profile: StyleProfile) => void;
+  deleteStyleProfile: (id: string) => void;
+}) {
+  const [draft, setDraft] = useState<StyleProfile | null>(null);
+  const [jsonText, setJsonText] = useState('');
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [importedName, setImportedName] = useState<string | null>(null);
+
+  // A deleted profile leaves the project on the builtin until it's restored
+  const activeId = library.styleProfiles.some((p) => p.id === styleProfileId)
+    ? styleProfileId
+    : library.styleProfiles[0]?.id;
+
+  function handleDuplicate(profile: StyleProfile) {
+    const copy: StyleProfile = {
+      ...profile,
+      id: `style_${crypto.randomUUID()}`,
+      name: `${profile.name} (copy)`,
+      source: 'custom',
+    };
+    saveStyleProfile(copy);
+    setDraft(copy);
+  }
+
+  function handleExport(profile: StyleProfile) {
+    downloadBlob(
+      new Blob([styleProfileToJson(profile)], { type: 'application/json' }),
+      `style_${profile.name}`,
+      'json'
+    );
+  }
+
+  function handleImport() {
+    setImportedName(null);
+    const parsed = parseStyleProfileJson(jsonText);
+    setImportErrors(parsed.errors);
+    if (!parsed.ok || !parsed.data) return;
+    saveStyleProfile({ ...parsed.data, id: `style_${crypto.randomUUID()}`, source: 'custom' });
+    setImportedName(parsed.data.name);
+    setJsonText('');
+  }
+
+  function handleSaveDraft() {
+    if (!draft) return;
+    saveStyleProfile({
+      ...draft,
+      name: draft.name.trim() || 'Untitled profile',
+      rules: draft.rules.map((r, i) => {
+        const polish = (r.polish ?? []).map((x) => x.trim()).filter(Boolean);
+        return { ...r, num: i + 1, polish: polish.length > 0 ? polish : undefined };
+      }),
+    });
+    setDraft(null);
+  }
+
+  if (draft) {
+    return <StyleProfileEditor draft={draft} setDraft={setDraft} onSave={handleSaveDraft} onCancel={() => setDraft(null)} />;
+  }
+
+  return (
+    <div style={styles.tabContent}>
+      <p style={styles.helpText}>
+        A style profile holds the rules shown before annotating, the clean-up prompt built
+        from them and the lint thresholds that enforce them. Each project uses one profile.
+        Duplicate the built-in profile to adapt it to a client brief.
+      </p>
+
+      {library.styleProfiles.map((profile) => {
+        const inUse = profile.id === activeId;
+        const thresholds = profile.rules.reduce((n, r) => n + Object.keys(r.lintOptions ?? {}).length, 0);
+        return (
+          <div
+            key={profile.id}
+            style={{ ...styles.packRow, borderColor: inUse ? 'var(--amber)' : 'var(--border)' }}
+          >
+            <div style={{ flex: 1 }}>
+              <div style={styles.packLabel}>
+                {profile.name}
+                {profile.source === 'builtin' && <span style={styles.builtinBadge}>BUILT-IN</span>}
+              </div>
+              <div style={styles.packMeta}>
+                {profile.rules.length} rules · {polishInstructions(profile).length} clean-up instructions · {thresholds} lint thresholds
+              </div>
+            </div>
+            {profile.source === 'custom' && (
+              <>
+                <button className="btn-ghost btn-small" onClick={() => setDraft(profile)}>EDIT</button>
+                <button
+                  className="btn-ghost btn-small"
+                  onClick={() => deleteStyleProfile(profile.id)}
+                  style={{ color: 'var(--error)' }}
+                >
+                  DELETE
+                </button>
+              </>
+            )}
+            <button className="btn-ghost btn-small" onClick={() => handleDuplicate(profile)}>DUPLICATE</button>
+            <button className="btn-ghost btn-small" onClick={() => handleExport(profile)}>EXPORT</button>
+            <button
+              className={inUse ? 'btn-primary btn-small' : 'btn-ghost btn-small'}
+              onClick={() => setStyleProfileId(profile.id)}
+            >
+              {inUse ? '✓ IN USE' : 'USE'}
+            </button>
+          </div>
+        );
+      })}
+
+      {/* Import */}
+      <textarea
+        value={jsonText}
+        onChange={(e) => { setJsonText(e.target.value); setImportErrors([]); setImportedName(null); }}
+        placeholder={'Paste an exported style profile…\n\n{ "name": "...", "rules": [...] }'}
+        style={{ ...styles.importTextarea, minHeight: 120 }}
+        spellCheck={false}
+      />
+      {importErrors.length > 0 && (
+        <div style={styles.errorBox}>
+          {importErrors.map((err, i) => (
+            <div key={i} style={styles.errorText}>⚠ {err}</div>
+          ))}
+        </div>
+      )}
+      {importedName && (
+        <div style={styles.successBox}>
+          <div style={{ color: 'var(--success)', fontFamily: 'var(--font-mono)' }}>
+            ✓ Imported "{importedName}" — select USE to apply it to this project.
+          </div>
+        </div>
+      )}
+      <button
+        className="btn-primary"
+        onClick={handleImport}
+        disabled={!jsonText.trim()}
+        style={{ opacity: jsonText.trim() ? 1 : 0.4 }}
+      >
+        IMPORT PROFILE
+      </button>
+    </div>
+  );
+}
+
+function StyleProfileEditor({
+  draft,
+  setDraft,
+  onSave,
+  onCancel,
+}: {
+  draft: StyleProfile;
+  setDraft: (p: StyleProfile) => void;
+  onSave: () => void;
+  onCancel: () => void;
+}) {
+  const [wordsText, setWordsText] = useState(() => quickCleanWords(draft).join(', '));
+  const promptRules = draft.rules
+    .map((r, i) => (r.polish?.some((x) => x.trim()) ? String(i + 1).padStart(2, '0') : null))
+    .filter((n): n is string => n !== null);
+
+  function updateRule(index: number, patch: Partial<StyleRule>) {
+    setDraft({ ...draft, rules: draft.rules.map((r, i) => (i === index ? { ...r, ...patch } : r)) });
+  }
+
+  function setThreshold(index: number, ruleId: string, options: Record<string, LintOptionValue> | null) {
+    const current = { ...(draft.rules[index].lintOptions ?? {}) };
+    if (options) current[ruleId] = options;
+    else delete current[ruleId];
+    updateRule(index, { lintOptions: Object.keys(current).length > 0 ? current : undefined });
+  }
+
+  return (
+    <div style={styles.tabContent}>
+      <input
+        type="text"
+        value={draft.name}
+        onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+        placeholder="Profile name"
+        style={styles.searchInput}
+      />
+
+      <div style={styles.categoryHeader}>Style rules</div>
+      {draft.rules.map((rule, i) => {
+        const linked = Object.entries(rule.lintOptions ?? {});
+        const linkable = TUNABLE_LINT_RULES.filter((r) => !rule.lintOptions?.[r.id]);
+        return (
+          <div key={i} style={{ ...styles.packRow, flexDirection: 'column', alignItems: 'stretch', gap: '0.4rem' }}>
+            <div style={styles.addRow}>
+              <span style={{ ...styles.packMeta, marginTop: 0 }}>{String(i + 1).padStart(2, '0')}</span>
+              <input
+                type="text"
+                value={rule.title}
+                onChange={(e) => updateRule(i, { title: e.target.value })}
+                placeholder="RULE TITLE"
+                style={{ ...styles.searchInput, flex: 1, width: 'auto' }}
+              />
+              <label style={{ ...styles.packMeta, marginTop: 0, display: 'flex', gap: '0.3rem', alignItems: 'center' }}>
+                <input
+                  type="checkbox"
+                  checked={rule.defaultExpanded}
+                  onChange={(e) => updateRule(i, { defaultExpanded: e.target.checked })}
+                />
+                open by default
+              </label>
+              <button
+                className="btn-ghost btn-small"
+                onClick={() => setDraft({ ...draft, rules: draft.rules.filter((_, j) => j !== i) })}
+                style={{ color: 'var(--error)' }}
+              >
+                REMOVE
+              </button>
+            </div>
+            <textarea
+              value={rule.body}
+              onChange={(e) => updateRule(i, { body: e.target.value })}
+              placeholder="What annotators should do"
+              style={{ ...styles.importTextarea, minHeight: 56, fontFamily: 'inherit' }}
+            />
+            <textarea
+              value={(rule.polish ?? []).join('\n')}
+              onChange={(e) => updateRule(i, { polish: e.target.value.split('\n') })}
+              placeholder="Clean-up instructions this rule adds to the prompt — one per line (optional)"
+              style={{ ...styles.importTextarea, minHeight: 48 }}
+              spellCheck={false}
+            />
+            {linked.map(([ruleId, options]) => (
+              <div key={ruleId} style={{ ...styles.packMeta, display: 'flex', gap: '0.5rem', alignItems: 'center', flexWrap: 'wrap' }}>
+                <span style={{ color: 'var(--amber)' }}>{ruleId}</span>
+                {Object.entries(options).map(([key, value]) => (
+                  <label key={key} style={{ display: 'flex', gap: '0.3rem', alignItems: 'center' }}>
+                    {key}
+                    <input
+                      type={typeof value === 'number' ? 'number' : 'text'}
+                      value={String(value)}
+                      onChange={(e) => setThreshold(i, ruleId, {
+                        ...options,
+                        [key]: typeof value === 'number' ? Number(e.target.value) || 0 : e.target.value,
+                      })}
+                      style={{ ...styles.searchInput, width: typeof value === 'number' ? 90 : 240, padding: '0.25rem 0.5rem' }}
+                    />
+                  </label>
+                ))}
+                <button className="btn-link" onClick={() => setThreshold(i, ruleId, null)}>unlink</button>
+              </div>
+            ))}
+            {linkable.length > 0 && (
+              <select
+                value=""
+                onChange={(e) => {
+                  const lintRule = TUNABLE_LINT_RULES.find((r) => r.id === e.target.value);
+                  if (lintRule) setThreshold(i, lintRule.id, { ...lintRule.defaultOptions });
+                }}
+                style={{ ...styles.select, alignSelf: 'flex-start' }}
+              >
+                <option value="">＋ Enforce with a lint threshold…</option>
+                {linkable.map((r) => (
+                  <option key={r.id} value={r.id}>{r.id} — {r.title}</option>
+                ))}
+              </select>
+            )}
+          </div>
+        );
+      })}
+      <button
+        className="btn-ghost btn-small"
+        style={{ alignSelf: 'flex-start' }}
+        onClick={() => setDraft({
+          ...draft,
+          rules: [...draft.rules, { num: draft.rules.length + 1, title: '', body: '', defaultExpanded: false }],
+        })}
+      >
+        ＋ ADD RULE
+      </button>
+
+      <div style={styles.promptBox}>
+        <div style={styles.promptBoxHeader}>
+          <span style={{ fontFamily: 'var(--font-mono)', fontSize: '0.75rem', color: 'var(--text-muted)' }}>
+            GENERATED CLEAN-UP PROMPT
+            {promptRules.length > 0 ? ` — from rules ${promptRules.join(', ')}` : ' — no rule adds instructions yet'}
+          </span>
+        </div>
+        <pre style={styles.promptText}>{buildPolishSystemPrompt(draft)}</pre>
+      </div>
+
+      <div style={styles.categoryHeader}>Quick clean — words to strip offline, comma-separated</div>
+      <textarea
+        value={wordsText}
+        onChange={(e) => {
+          setWordsText(e.target.value);
+          setDraft({ ...draft, quickCleanWords: e.target.value.split(',').map((w) => w.trim()).filter(Boolean) });
+        }}
+        style={{ ...styles.importTextarea, minHeight: 56 }}
+        spellCheck={false}
+      />
+
+      <div style={styles.addRow}>
+        <button className="btn-primary" onClick={onSave}>SAVE PROFILE</button>
+        <button className="btn-ghost" onClick={onCancel}>CANCEL</button>
+      </div>
+    </div>
+  );
+}
+
 // ─── Styles ───────────────────────────────────────────────────────────────────
 
 const styles: Record<string, React.CSSProperties> = {
@@ -1,21 +1,24 @@
 // Simplified: start logic moved to App.tsx (onStartListening callback).
 import { useState } from 'react';
-import type { TrackAnnotation } from '../types';
-import { STYLE_RULES } from '../lib/schema';
+import type { TrackAnnotation, TimelineEntry, StyleRule } from '../types';
+import { jamsToTimeline } from '../lib/jamsIO';
 
 interface Props {
   annotation: TrackAnnotation;
   annotator: string;
   setAnnotator: (name: string) => void;
   onStartListening: () => void;  // App.tsx handles timer + status + phase change
+  updateTimeline: (trackId: number, entries: TimelineEntry[]) => void;
+  styleRules: StyleRule[];  // from the project's style profile
 }
 
-export function PhaseReady({ annotation, annotator, setAnnotator, onStartListening }: Props) {
+export function PhaseReady({ annotation, annotator, setAnnotator, onStartListening, updateTimeline, styleRules }: Props) {
   const track = annotation.track;
   const [sectionOpen, setSectionOpen] = useState(false);
+  const [jamsNote, setJamsNote] = useState<{ ok: boolean; text: string } | null>(null);
   const [expanded, setExpanded] = useState<Set<number>>(() => {
     const s = new Set<number>();
-    STYLE_RULES.forEach((r) => { if (r.defaultExpanded) s.add(r.num); });
+    styleRules.forEach((r) => { if (r.defaultExpanded) s.add(r.num); });
     return s;
   });
 
@@ -28,6 +31,31 @@ export function PhaseReady({ annotation, annotator, setAnnotator, onStartListeni
     });
   }
 
+  // Reference segmentation → starting timeline (sections only unless TuneTag-written)
+  async function handleJamsFile(file: File) {
+    try {
+      const result = jamsToTimeline(JSON.parse(await file.text()));
+      if (result.timeline.length === 0) {
+        setJamsNote({ ok: false, text: `${file.name} has no segments` });
+        return;
+      }
+      if (
+        annotation.timeline.length > 0 &&
+        !window.confirm(`Replace the ${annotation.timeline.length} existing sections with ${result.timeline.length} from ${file.name}?`)
+      ) {
+        return;
+      }
+      updateTimeline(track.id, result.timeline);
+      const from = result.curator ? ` by ${result.curator}` : '';
+      setJamsNote({
+        ok: true,
+        text: [`Loaded ${result.timeline.length} sections (${result.namespace}${from})`, ...result.warnings].join(' · '),
+      });
+    } catch (err) {
+      setJamsNote({ ok: false, text: err instanceof Error ? err.message : 'Could not read JAMS file' });
+    }
+  }
+
   return (
     <div className="phase-container fade-in">
       {/* Track header */}
@@ -91,7 +119,7 @@ export function PhaseReady({ annotation, annotator, setAnnotator, onStartListeni
           </span>
         </button>
         {sectionOpen && <div style={{ display: 'flex', flexDirection: 'column', gap: '2px' }}>
-          {STYLE_RULES.map((rule) => (
+          {styleRules.map((rule) => (
             <div key={rule.num} className="accordion-item">
               <button className="accordion-header" onClick={() => toggleRule(rule.num)}>
                 <span style={{ fontFamily: 'var(--font-mono)', color: 'var(--amber)', fontSize: '0.75rem' }}>
@@ -112,6 +140,22 @@ export function PhaseReady({ annotation, annotator, setAnnotator, onStartListeni
         </div>}
       </div>
 
+      {/* Reference segmentation */}
+      <div style={{ marginBottom: '1.5rem' }}>
+        <label className="label" style={{ display: 'block', marginBottom: '0.375rem' }}>
+          STARTING TIMELINE (OPTIONAL)
+        </label>
+        <input
+          type="file"
+          accept=".jams,.json"
+          onChange={(e) => { const f = e.target.files?.[0]; if (f) handleJamsFile(f); e.target.value = ''; }}
+          style={{ color: 'var(--text-muted)', fontSize: '0.8rem' }}
+        />
+        <p style={{ margin: '0.375rem 0 0', color: jamsNote && !jamsNote.ok ? 'var(--error)' : 'var(--text-dim)', fontFamily: 'var(--font-mono)', fontSize: '0.75rem' }}>
+          {jamsNote ? jamsNote.text : 'Load a JAMS reference segmentation to start from its section boundaries.'}
+        </p>
+      </div>
+
       {/* Timer notice */}
       <div className="notice-amber" style={{ marginBottom: '1.5rem' }}>
         Session timer starts when you click Start Listening. A warning appears at 20 minutes.
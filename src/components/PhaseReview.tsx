@@ -1,9 +1,33 @@
-import { useState } from 'react';
-import type { TrackAnnotation, Phase, TemplateState, TimelineEntry, MarkEntryDraft } from '../types';
+import { useState, useMemo } from 'react';
+import type {
+  TrackAnnotation,
+  Phase,
+  TemplateState,
+  TimelineEntry,
+  MarkEntryDraft,
+  TimelineOverflowStrategy,
+  PromptsTagsLibraryState,
+  LintConfig,
+  LintFix,
+  UndoAction,
+  PolishUpdate,
+  FieldRevision,
+} from '../types';
 import { GLOBAL_CATEGORIES } from '../lib/schema';
-import { lintAnnotation } from '../lib/lintAnnotation';
+import { lintAnnotation, resolveRuleOptions, isRuleEnabled } from '../lib/lintAnnotation';
+import { getLintRule } from '../lib/lintRules';
+import { findCrossTrackDuplicates, sharedSegments } from '../lib/duplicateDetection';
+import { getSessionTags } from '../lib/tagLibrary';
 import { exportAnnotationsToExcel, downloadBlob } from '../lib/excelExport';
+import { exportAnnotationsToJsonl } from '../lib/jsonlExport';
+import { annotationToJams } from '../lib/jamsIO';
+import { timelineToSpans, toAudacityLabels, toReaperCsv, toMidiMarkers } from '../lib/dawExport';
+import { TEMPLATE_PROFILES, getTemplateProfile } from '../lib/templateProfiles';
 import { LintPanel } from './LintPanel';
+import { TimelineCondenser } from './TimelineCondenser';
+import { BatchPolishPanel } from './BatchPolishPanel';
+import { RevisionHistory } from './RevisionHistory';
+import { fieldHistory, globalFieldId, annotationAuthorship, humanEditRatio } from '../lib/revisionLog';
 
 interface Props {
   annotation: TrackAnnotation;
@@ -15,6 +39,20 @@ interface Props {
   setGlobalCategoryIndex: (i: number) => void;
   setGlobalOnSummary: (v: boolean) => void;
   annotator: string;
+  templateProfileId: string;
+  setTemplateProfileId: (id: string) => void;
+  timelineOverflowStrategy: TimelineOverflowStrategy;
+  lintConfig: LintConfig;
+  polishPrompt: string;  // system prompt from the project's style profile
+  setTimelineOverflowStrategy: (s: TimelineOverflowStrategy) => void;
+  updateTimeline: (trackId: number, entries: TimelineEntry[]) => void;
+  library: PromptsTagsLibraryState;
+  trackDurationSeconds: number | null;  // from the Spotify player, when known
+  applyLintFixes: (trackId: number, fixes: LintFix[]) => void;
+  applyPolishUpdates: (trackId: number, updates: PolishUpdate[]) => void;
+  logRevisions: (trackId: number, fieldId: string, revisions: FieldRevision[]) => void;
+  undoStack: UndoAction[];
+  undoLastAction: () => void;
 }
 
 function formatElapsed(seconds: number): string {
@@ -33,13 +71,55 @@ export function PhaseReview({
   setGlobalCategoryIndex,
   setGlobalOnSummary,
   annotator,
+  templateProfileId,
+  setTemplateProfileId,
+  timelineOverflowStrategy,
+  lintConfig,
+  polishPrompt,
+  setTimelineOverflowStrategy,
+  updateTimeline,
+  library,
+  trackDurationSeconds,
+  applyLintFixes,
+  applyPolishUpdates,
+  logRevisions,
+  undoStack,
+  undoLastAction,
 }: Props) {
   const track = annotation.track;
   const global = annotation.global as Record<string, string>;
   const [exporting, setExporting] = useState(false);
   const [exportError, setExportError] = useState<string | null>(null);
+  const [exportSummary, setExportSummary] = useState<string | null>(null);
+  const [templateWarningsAck, setTemplateWarningsAck] = useState(false);
+  const [historyFieldId, setHistoryFieldId] = useState<string | null>(null);
 
-  const lintResult = lintAnnotation(annotation);
+  const profile = getTemplateProfile(templateProfileId);
+  const lintResult = lintAnnotation(annotation, {
+    overflowStrategy: timelineOverflowStrategy,
+    maxTimelineRows: profile.timeline.maxRows,
+    config: lintConfig,
+    tags: getSessionTags(library, track.id),
+    durationSeconds: trackDurationSeconds,
+    allAnnotations,
+  });
+  const latestUndo = undoStack[0];
+  const humanRatio = humanEditRatio(annotationAuthorship(annotation));
+
+  function toggleHistory(fieldId: string) {
+    setHistoryFieldId((prev) => (prev === fieldId ? null : fieldId));
+  }
+
+  // Same thresholds as the track/cross-track-duplicate lint rule
+  const duplicates = useMemo(() => {
+    const rule = getLintRule('track/cross-track-duplicate');
+    if (!rule || !isRuleEnabled(rule, lintConfig)) return [];
+    const o = resolveRuleOptions(rule, lintConfig);
+    return findCrossTrackDuplicates(annotation, allAnnotations, {
+      minSimilarity: Number(o.minSimilarity),
+      minWords: Number(o.minWords),
+    });
+  }, [annotation, allAnnotations, lintConfig]);
 
   // Canonical order (chronological) for review display
   const sortedTimeline = [...annotation.timeline].sort((a, b) => {
@@ -51,16 +131,31 @@ export function PhaseReview({
     return parseToSeconds(a.timestamp) - parseToSeconds(b.timestamp);
   });
 
+  const templateBuffer =
+    templateState.status === 'ready' || templateState.status === 'ready_with_warnings'
+      ? templateState.buffer
+      : null;
+  const templateIssues = templateState.status === 'ready_with_warnings' ? templateState.issues : [];
+  const exportBlocked = templateIssues.length > 0 && !templateWarningsAck;
+
   async function doExport(annotations: TrackAnnotation[]) {
-    if (templateState.status !== 'ready') return;
+    if (!templateBuffer || exportBlocked) return;
     setExporting(true);
     setExportError(null);
+    setExportSummary(null);
     try {
-      const blob = await exportAnnotationsToExcel(
-        templateState.buffer,
-        annotations
+      const { blob, createdSheets, missingSheets, overflowRows } = await exportAnnotationsToExcel(
+        templateBuffer,
+        annotations,
+        profile,
+        { overflow: timelineOverflowStrategy }
       );
       downloadBlob(blob, annotator || 'annotator');
+      const notes: string[] = [];
+      if (createdSheets.length > 0) notes.push(`Created sheets: ${createdSheets.join(', ')}`);
+      if (missingSheets.length > 0) notes.push(`Could not write: ${missingSheets.join(', ')}`);
+      if (overflowRows > 0) notes.push(`${overflowRows} section${overflowRows === 1 ? '' : 's'} written to "${profile.overflowSheet}"`);
+      setExportSummary(notes.length > 0 ? notes.join(' · ') : null);
     } catch (err) {
       setExportError(
         err instanceof Error ? err.message : 'Export failed — please try again'
@@ -70,15 +165,49 @@ export function PhaseReview({
     }
   }
 
+  function exportableAnnotations(): TrackAnnotation[] {
+    return Object.values(allAnnotations).filter(
+      (a) => a.status === 'complete' || a.status === 'skipped'
+    );
+  }
+
   function handleExportThis() {
     doExport([annotation]);
   }
 
   function handleExportAll() {
-    const completed = Object.values(allAnnotations).filter(
-      (a) => a.status === 'complete' || a.status === 'skipped'
-    );
-    doExport(completed);
+    doExport(exportableAnnotations());
+  }
+
+  // JSONL needs no template — available even when the workbook failed to load
+  function doExportJsonl(annotations: TrackAnnotation[]) {
+    const text = exportAnnotationsToJsonl(annotations, library.tags);
+    downloadBlob(new Blob([text], { type: 'application/jsonl' }), annotator || 'annotator', 'jsonl');
+  }
+
+  // JAMS is one document per track, so "all" downloads one file each
+  function doExportJams(annotations: TrackAnnotation[]) {
+    for (const a of annotations) {
+      const duration = a.track.id === track.id ? trackDurationSeconds : null;
+      const text = JSON.stringify(annotationToJams(a, duration), null, 2);
+      downloadBlob(
+        new Blob([text], { type: 'application/json' }),
+        `${annotator || 'annotator'}_${a.track.sheetName}`,
+        'jams'
+      );
+    }
+  }
+
+  function doExportDaw(kind: 'audacity' | 'reaper' | 'midi') {
+    const spans = timelineToSpans(annotation.timeline, trackDurationSeconds);
+    const name = `${annotator || 'annotator'}_${track.sheetName}`;
+    if (kind === 'audacity') {
+      downloadBlob(new Blob([toAudacityLabels(spans)], { type: 'text/plain' }), name, 'txt');
+    } else if (kind === 'reaper') {
+      downloadBlob(new Blob([toReaperCsv(spans)], { type: 'text/csv' }), name, 'csv');
+    } else {
+      downloadBlob(new Blob([toMidiMarkers(spans)], { type: 'audio/midi' }), name, 'mid');
+    }
   }
 
   // FIX #4: set phase to 'mark_entry' (not 'listening') after setting the draft
@@ -102,7 +231,7 @@ export function PhaseReview({
     setPhase('global');
   }
 
-  const templateReady = templateState.status === 'ready';
+  const templateReady = templateBuffer !== null;
 
   return (
     <div className="phase-container fade-in">
@@ -124,6 +253,7 @@ export function PhaseReview({
         <p style={{ color: 'var(--text-muted)', margin: 0 }}>{track.artist}</p>
         <p style={{ color: 'var(--text-dim)', fontFamily: 'var(--font-mono)', fontSize: '0.75rem', marginTop: '0.375rem' }}>
           Annotated by {annotation.annotator} · {formatElapsed(annotation.elapsedSeconds ?? 0)}
+          {humanRatio !== null && ` · ${Math.round(humanRatio * 100)}% human-written`}
         </p>
       </div>
 
@@ -141,9 +271,14 @@ export function PhaseReview({
                   {entry.sectionType}
                 </span>
               </div>
-              <button className="btn-link" style={{ fontSize: '0.75rem' }} onClick={() => handleEditEntry(entry)}>
-                Edit
-              </button>
+              <div style={{ display: 'flex', gap: '0.75rem' }}>
+                <button className="btn-link" style={{ fontSize: '0.75rem' }} onClick={() => toggleHistory(entry.id)}>
+                  History
+                </button>
+                <button className="btn-link" style={{ fontSize: '0.75rem' }} onClick={() => handleEditEntry(entry)}>
+                  Edit
+                </button>
+              </div>
             </div>
             <p style={{ margin: '0.375rem 0 0.25rem', fontFamily: 'var(--font-serif)', fontSize: '0.9375rem', color: 'var(--text)', lineHeight: 1.6 }}>
               {entry.narrative}
@@ -153,10 +288,21 @@ export function PhaseReview({
                 {entry.tags}
               </p>
             )}
+            {historyFieldId === entry.id && (
+              <RevisionHistory history={fieldHistory(annotation, entry.id)} finalText={entry.narrative} />
+            )}
           </div>
         ))}
       </div>
 
+      {timelineOverflowStrategy === 'condense' && (
+        <TimelineCondenser
+          entries={sortedTimeline}
+          maxRows={profile.timeline.maxRows}
+          onChange={(entries) => updateTimeline(track.id, entries)}
+        />
+      )}
+
       {/* Global analysis */}
       <div style={{ marginBottom: '1.5rem' }}>
         <p className="label" style={{ marginBottom: '0.75rem' }}>PART 2 — GLOBAL ANALYSIS</p>
@@ -166,17 +312,67 @@ export function PhaseReview({
               <p className="label" style={{ marginBottom: '0.25rem', fontSize: '0.6875rem' }}>
                 {cat.displayLabel}
               </p>
-              <button className="btn-link" style={{ fontSize: '0.75rem' }} onClick={() => handleEditCategory(i)}>
-                Edit
-              </button>
+              <div style={{ display: 'flex', gap: '0.75rem' }}>
+                <button className="btn-link" style={{ fontSize: '0.75rem' }} onClick={() => toggleHistory(globalFieldId(cat.key))}>
+                  History
+                </button>
+                <button className="btn-link" style={{ fontSize: '0.75rem' }} onClick={() => handleEditCategory(i)}>
+                  Edit
+                </button>
+              </div>
             </div>
             <p style={{ margin: 0, fontFamily: 'var(--font-serif)', fontSize: '0.9375rem', color: global[cat.key] ? 'var(--text)' : 'var(--text-dim)' }}>
               {global[cat.key] || '—'}
             </p>
+            {historyFieldId === globalFieldId(cat.key) && (
+              <RevisionHistory history={fieldHistory(annotation, globalFieldId(cat.key))} finalText={global[cat.key] ?? ''} />
+            )}
           </div>
         ))}
       </div>
 
+      <BatchPolishPanel
+        annotation={annotation}
+        systemPrompt={polishPrompt}
+        onAccept={(updates) => applyPolishUpdates(track.id, updates)}
+        onLog={(fieldId, revisions) => logRevisions(track.id, fieldId, revisions)}
+        undoLabel={latestUndo?.kind === 'polish_accept' ? latestUndo.label : null}
+        onUndo={undoLastAction}
+      />
+
+      {/* Text reused from other tracks, side by side */}
+      {duplicates.length > 0 && (
+        <div style={{ marginBottom: '1.5rem' }}>
+          <p className="label" style={{ marginBottom: '0.75rem' }}>REUSED TEXT ({duplicates.length})</p>
+          {duplicates.map((d, i) => (
+            <div key={i} className="review-entry">
+              <p className="label" style={{ marginBottom: '0.5rem', fontSize: '0.6875rem', color: 'var(--amber)' }}>
+                {Math.round(d.similarity * 100)}% SIMILAR
+              </p>
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1rem' }}>
+                {[
+                  { side: d.field, against: d.other },
+                  { side: d.other, against: d.field },
+                ].map(({ side, against }) => (
+                  <div key={`${side.trackId}-${side.field}`}>
+                    <p style={{ margin: '0 0 0.25rem', fontFamily: 'var(--font-mono)', fontSize: '0.6875rem', color: 'var(--text-muted)' }}>
+                      {side.trackLabel} · {side.field}
+                    </p>
+                    <p style={{ margin: 0, fontFamily: 'var(--font-serif)', fontSize: '0.875rem' }}>
+                      {sharedSegments(side.text, against.text).map((seg, j) =>
+                        seg.shared
+                          ? <mark key={j} style={{ background: 'var(--amber-bg)', color: 'var(--text)' }}>{seg.text}</mark>
+                          : <span key={j}>{seg.text}</span>
+                      )}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Lint panel + export */}
       <div style={{ marginBottom: '1.5rem' }}>
         <p className="label" style={{ marginBottom: '0.75rem' }}>QUALITY CHECK</p>
@@ -185,22 +381,76 @@ export function PhaseReview({
           onNavigate={(phase) => setPhase(phase)}
           onExport={handleExportThis}
           exporting={exporting}
+          exportBlocked={exportBlocked}
+          onApplyFixes={(fixes) => applyLintFixes(track.id, fixes)}
+          undoFixLabel={latestUndo?.kind === 'lint_fix' ? latestUndo.label : null}
+          onUndoFix={undoLastAction}
         />
       </div>
 
+      {/* Template compatibility report */}
+      {templateIssues.length > 0 && (
+        <div className="notice-error" style={{ marginBottom: '1.5rem' }}>
+          <p className="label" style={{ color: 'var(--amber)', marginBottom: '0.5rem' }}>
+            TEMPLATE WARNINGS ({templateIssues.length})
+          </p>
+          {templateIssues.map((issue, i) => (
+            <p key={i} style={{ margin: '0 0 0.375rem', fontFamily: 'var(--font-mono)', fontSize: '0.75rem' }}>
+              <span style={{ color: 'var(--text-muted)' }}>{issue.sheet}</span> · {issue.message}
+              {issue.found !== undefined && (
+                <span style={{ color: 'var(--text-dim)' }}> (found "{issue.found || 'empty'}")</span>
+              )}
+            </p>
+          ))}
+          <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginTop: '0.75rem', fontSize: '0.8125rem', cursor: 'pointer' }}>
+            <input
+              type="checkbox"
+              checked={templateWarningsAck}
+              onChange={(e) => setTemplateWarningsAck(e.target.checked)}
+            />
+            I've checked these — export anyway
+          </label>
+        </div>
+      )}
+
       {/* Additional export buttons */}
       {templateReady ? (
         <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem', marginBottom: '1.5rem' }}>
+          <label className="label" style={{ fontSize: '0.6875rem' }}>
+            TEMPLATE PROFILE
+            <select
+              value={profile.id}
+              onChange={(e) => setTemplateProfileId(e.target.value)}
+              className="text-input"
+              style={{ marginTop: '0.25rem', fontSize: '0.8125rem' }}
+            >
+              {TEMPLATE_PROFILES.map((p) => (
+                <option key={p.id} value={p.id}>{p.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="label" style={{ fontSize: '0.6875rem' }}>
+            SECTIONS BEYOND {profile.timeline.maxRows}
+            <select
+              value={timelineOverflowStrategy}
+              onChange={(e) => setTimelineOverflowStrategy(e.target.value as TimelineOverflowStrategy)}
+              className="text-input"
+              style={{ marginTop: '0.25rem', fontSize: '0.8125rem' }}
+            >
+              <option value="condense">Block export until condensed</option>
+              <option value="overflow_sheet">Write to "{profile.overflowSheet}" sheet</option>
+            </select>
+          </label>
           <button
             className="btn-ghost"
-            disabled={!lintResult.canExport || exporting}
+            disabled={!lintResult.canExport || exporting || exportBlocked}
             onClick={handleExportThis}
           >
             ⬇ Download workbook (this track filled)
           </button>
           <button
             className="btn-ghost"
-            disabled={exporting}
+            disabled={exporting || exportBlocked}
             onClick={handleExportAll}
           >
             ⬇ Download workbook (all completed tracks)
@@ -212,6 +462,61 @@ export function PhaseReview({
         </div>
       )}
 
+      {/* Machine-readable exports */}
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '0.5rem', marginBottom: '1.5rem' }}>
+        <button
+          className="btn-ghost"
+          disabled={!lintResult.canExport}
+          onClick={() => doExportJsonl([annotation])}
+        >
+          ⬇ JSONL (this track)
+        </button>
+        <button
+          className="btn-ghost"
+          onClick={() => doExportJsonl(exportableAnnotations())}
+        >
+          ⬇ JSONL (all completed tracks)
+        </button>
+        <button
+          className="btn-ghost"
+          disabled={!lintResult.canExport}
+          onClick={() => doExportJams([annotation])}
+        >
+          ⬇ JAMS (this track)
+        </button>
+        <button
+          className="btn-ghost"
+          onClick={() => doExportJams(exportableAnnotations().filter((a) => a.status === 'complete'))}
+        >
+          ⬇ JAMS (all completed tracks)
+        </button>
+      </div>
+
+      {/* DAW markers — this track only */}
+      <div style={{ marginBottom: '1.5rem' }}>
+        <p className="label" style={{ fontSize: '0.6875rem', marginBottom: '0.375rem' }}>
+          DAW MARKERS (THIS TRACK)
+          {trackDurationSeconds === null && ' — track length unknown, last section exported as a marker'}
+        </p>
+        <div style={{ display: 'flex', gap: '0.5rem' }}>
+          <button className="btn-ghost" style={{ flex: 1 }} disabled={annotation.timeline.length === 0} onClick={() => doExportDaw('audacity')}>
+            Audacity labels
+          </button>
+          <button className="btn-ghost" style={{ flex: 1 }} disabled={annotation.timeline.length === 0} onClick={() => doExportDaw('reaper')}>
+            Reaper CSV
+          </button>
+          <button className="btn-ghost" style={{ flex: 1 }} disabled={annotation.timeline.length === 0} onClick={() => doExportDaw('midi')}>
+            MIDI markers
+          </button>
+        </div>
+      </div>
+
+      {exportSummary && (
+        <p style={{ color: 'var(--text-muted)', fontFamily: 'var(--font-mono)', fontSize: '0.8125rem', marginBottom: '1rem' }}>
+          {exportSummary}
+        </p>
+      )}
+
       {exportError && (
         <p style={{ color: 'var(--error)', fontFamily: 'var(--font-mono)', fontSize: '0.8125rem', marginBottom: '1rem' }}>
           Export error: {exportError}
@@ -3,12 +3,15 @@ import { useState } from 'react';
 import type { TrackAnnotation, Phase } from '../types';
 import { getActiveTracks } from '../lib/schema';
 import { TrackManager } from './TrackManager';
+import { ExcelImportPanel } from './ExcelImportPanel';
 
 interface Props {
   annotations: Record<number, TrackAnnotation>;
   setActiveTrackId: (id: number) => void;
   setPhase: (p: Phase) => void;
   resetTrack: (id: number) => void;
+  templateProfileId: string;
+  mergeImportedAnnotations: (imported: TrackAnnotation[]) => void;
 }
 
 const STATUS_LABEL: Record<TrackAnnotation['status'], string> = {
@@ -54,8 +57,11 @@ export function PhaseSelect({
   setActiveTrackId,
   setPhase,
   resetTrack,
+  templateProfileId,
+  mergeImportedAnnotations,
 }: Props) {
   const [showTrackManager, setShowTrackManager] = useState(false);
+  const [showImport, setShowImport] = useState(false);
 
   // ── All routing logic preserved exactly ──────────────────────────────────
   function handleCardClick(trackId: number) {
@@ -114,6 +120,15 @@ export function PhaseSelect({
         <TrackManager onClose={() => setShowTrackManager(false)} />
       )}
 
+      {showImport && (
+        <ExcelImportPanel
+          annotations={annotations}
+          templateProfileId={templateProfileId}
+          onMerge={mergeImportedAnnotations}
+          onClose={() => setShowImport(false)}
+        />
+      )}
+
       <div className="phase-container fade-in" style={{ maxWidth: '900px', margin: '0 auto' }}>
 
         {/* ── HEADER ── */}
@@ -304,6 +319,13 @@ export function PhaseSelect({
           >
             ⊞ MANAGE TRACKS
           </button>
+          <button
+            className="btn-ghost btn-small"
+            onClick={() => setShowImport(true)}
+            style={{ letterSpacing: '0.05em', color: 'var(--text-dim)' }}
+          >
+            ⇪ IMPORT WORKBOOK
+          </button>
         </div>
       </div>
     </>
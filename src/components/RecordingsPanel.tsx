@@ -1,25 +1,16 @@
 import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
-import type { RecordingEntry } from '../types';
-
-// ── Whisper transcription ────────────────────────────────────────────────────
-const OPENAI_KEY_STORAGE = 'openai_api_key';
-
-async function transcribeWithWhisper(blob: Blob, mimeType: string, apiKey: string): Promise<string> {
-  const ext = mimeType.includes('ogg') ? 'ogg' : 'webm';
-  const formData = new FormData();
-  formData.append('file', new File([blob], `recording.${ext}`, { type: mimeType }));
-  formData.append('model', 'whisper-1');
-  const res = await fetch('https://api.openai.com/v1/audio/transcriptions', {
-    method: 'POST',
-    headers: { Authorization: `Bearer ${apiKey}` },
-    body: formData,
-  });
-  if (!res.ok) {
-    const err = await res.json().catch(() => ({}));
-    throw new Error((err as any)?.error?.message ?? `HTTP ${res.status}`);
-  }
-  const json = await res.json() as { text: string };
-  return json.text;
+import type { RecordingEntry, TranscriptWord } from '../types';
+import {
+  loadTranscriptionSettings,
+  recordingBackend,
+  getBackendKey,
+  transcribeRecording,
+} from '../lib/transcription';
+
+// ── Word timings ─────────────────────────────────────────────────────────────
+function formatWordTime(seconds: number): string {
+  const m = Math.floor(seconds / 60);
+  return `${m}:${(seconds - m * 60).toFixed(1).padStart(4, '0')}`;
 }
 
 // ── Save / Discard confirm dialog ────────────────────────────────────────────
@@ -125,13 +116,16 @@ export interface RecordingCardProps {
   rec: RecordingEntry;
   onDelete: (id: string) => void;
   onUseTranscript: (transcript: string, timestamp: string) => void;
-  onUpdateTranscript: (id: string, transcript: string) => void;
+  onUpdateTranscript: (id: string, transcript: string, words?: TranscriptWord[]) => void;
 }
 
 export function RecordingCard({ rec, onDelete, onUseTranscript, onUpdateTranscript }: RecordingCardProps) {
-  const [whisperState, setWhisperState] = useState<'idle' | 'key_prompt' | 'loading' | 'error'>('idle');
-  const [whisperError, setWhisperError] = useState('');
+  const [transcribeState, setTranscribeState] = useState<'idle' | 'key_prompt' | 'loading' | 'error'>('idle');
+  const [transcribeError, setTranscribeError] = useState('');
   const [keyInput, setKeyInput] = useState('');
+  const [settings] = useState(loadTranscriptionSettings);
+  const backend = recordingBackend(settings);
+  const audioRef = useRef<HTMLAudioElement>(null);
 
   function handleDownload() {
     const ext = rec.mimeType.includes('ogg') ? 'ogg' : 'webm';
@@ -142,33 +136,39 @@ export function RecordingCard({ rec, onDelete, onUseTranscript, onUpdateTranscri
   }
 
   async function handleTranscribe() {
-    const storedKey = sessionStorage.getItem(OPENAI_KEY_STORAGE) ?? '';
-    if (!storedKey) {
-      setWhisperState('key_prompt');
+    if (backend.keyRequired && !getBackendKey(backend)) {
+      setTranscribeState('key_prompt');
       return;
     }
-    await runWhisper(storedKey);
+    await runTranscription();
   }
 
-  async function runWhisper(key: string) {
-    setWhisperState('loading');
-    setWhisperError('');
+  async function runTranscription() {
+    setTranscribeState('loading');
+    setTranscribeError('');
     try {
-      const text = await transcribeWithWhisper(rec.audioBlob, rec.mimeType, key);
-      onUpdateTranscript(rec.id, text);
-      setWhisperState('idle');
+      const result = await transcribeRecording(rec.audioBlob, rec.mimeType, settings);
+      onUpdateTranscript(rec.id, result.text, result.words ?? undefined);
+      setTranscribeState('idle');
     } catch (e: unknown) {
-      setWhisperError(e instanceof Error ? e.message : 'Transcription failed.');
-      setWhisperState('error');
+      setTranscribeError(e instanceof Error ? e.message : 'Transcription failed.');
+      setTranscribeState('error');
     }
   }
 
   function handleKeyConfirm() {
     const trimmed = keyInput.trim();
     if (!trimmed) return;
-    sessionStorage.setItem(OPENAI_KEY_STORAGE, trimmed);
+    sessionStorage.setItem(backend.keyStorage, trimmed);
     setKeyInput('');
-    runWhisper(trimmed);
+    runTranscription();
+  }
+
+  function seekTo(seconds: number) {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = seconds;
+    audio.play().catch(() => { /* ignore */ });
   }
 
   return (
@@ -196,6 +196,7 @@ export function RecordingCard({ rec, onDelete, onUseTranscript, onUpdateTranscri
 
       {/* Audio player */}
       <audio
+        ref={audioRef}
         controls
         src={rec.audioUrl}
         style={{ width: '100%', height: '36px', marginBottom: '0.5rem' }}
@@ -207,7 +208,18 @@ export function RecordingCard({ rec, onDelete, onUseTranscript, onUpdateTranscri
           fontFamily: 'var(--font-serif)', fontSize: '0.85rem',
           color: 'var(--text-muted)', lineHeight: 1.5, marginBottom: '0.5rem',
         }}>
-          {rec.transcript}
+          {rec.words
+            ? rec.words.map((w, i) => (
+                <span
+                  key={i}
+                  onClick={() => seekTo(w.start)}
+                  title={`${formatWordTime(w.start)} — click to play from here`}
+                  style={{ cursor: 'pointer' }}
+                >
+                  {i > 0 && ' '}{w.text}
+                </span>
+              ))
+            : rec.transcript}
         </p>
       ) : (
         <p style={{
@@ -218,22 +230,22 @@ export function RecordingCard({ rec, onDelete, onUseTranscript, onUpdateTranscri
         </p>
       )}
 
-      {/* Whisper transcription */}
-      {whisperState === 'idle' && (
+      {/* Re-transcription with the backend chosen in setup */}
+      {transcribeState === 'idle' && (
         <button
           className="btn-ghost btn-small"
           style={{ fontSize: '0.7rem', marginTop: '0.25rem' }}
           onClick={handleTranscribe}
         >
-          ✦ Transcribe (Whisper)
+          ✦ Transcribe ({backend.label})
         </button>
       )}
-      {whisperState === 'key_prompt' && (
+      {transcribeState === 'key_prompt' && (
         <div style={{ marginTop: '0.5rem', display: 'flex', gap: '0.375rem', alignItems: 'center' }}>
           <input
             type="password"
             className="text-input"
-            placeholder="OpenAI API key (sk-…)"
+            placeholder={`${backend.label} API key`}
             value={keyInput}
             onChange={(e) => setKeyInput(e.target.value)}
             onKeyDown={(e) => { if (e.key === 'Enter') handleKeyConfirm(); }}
@@ -241,17 +253,17 @@ export function RecordingCard({ rec, onDelete, onUseTranscript, onUpdateTranscri
             autoFocus
           />
           <button className="btn-primary btn-small" onClick={handleKeyConfirm}>→</button>
-          <button className="btn-ghost btn-small" onClick={() => setWhisperState('idle')}>✕</button>
+          <button className="btn-ghost btn-small" onClick={() => setTranscribeState('idle')}>✕</button>
         </div>
       )}
-      {whisperState === 'loading' && (
+      {transcribeState === 'loading' && (
         <p style={{ fontFamily: 'var(--font-mono)', fontSize: '0.7rem', color: 'var(--text-dim)', marginTop: '0.25rem' }}>
           Transcribing…
         </p>
       )}
-      {whisperState === 'error' && (
+      {transcribeState === 'error' && (
         <p style={{ fontFamily: 'var(--font-mono)', fontSize: '0.7rem', color: 'var(--error)', marginTop: '0.25rem' }}>
-          {whisperError} — <button className="btn-link" style={{ fontSize: '0.7rem' }} onClick={() => setWhisperState('idle')}>dismiss</button>
+          {transcribeError} — <button className="btn-link" style={{ fontSize: '0.7rem' }} onClick={() => setTranscribeState('idle')}>dismiss</button>
         </p>
       )}
     </div>
@@ -283,16 +295,16 @@ export function RecordingsPanel({
   currentTrackId,
   forceOpen,
 }: RecordingsPanelProps) {
-  // Transcript overrides (Whisper results applied after the fact)
-  const [transcriptOverrides, setTranscriptOverrides] = useState<Record<string, string>>({});
+  // Transcript overrides (backend transcriptions applied after the fact)
+  const [transcriptOverrides, setTranscriptOverrides] = useState<Record<string, { transcript: string; words?: TranscriptWord[] }>>({});
 
-  const handleUpdateTranscript = useCallback((id: string, text: string) => {
-    setTranscriptOverrides((prev) => ({ ...prev, [id]: text }));
+  const handleUpdateTranscript = useCallback((id: string, transcript: string, words?: TranscriptWord[]) => {
+    setTranscriptOverrides((prev) => ({ ...prev, [id]: { transcript, words } }));
   }, []);
 
   const enrichedRecordings = useMemo(
     () => recordings.map((r) =>
-      transcriptOverrides[r.id] !== undefined ? { ...r, transcript: transcriptOverrides[r.id] } : r
+      transcriptOverrides[r.id] !== undefined ? { ...r, ...transcriptOverrides[r.id] } : r
     ),
     [recordings, transcriptOverrides],
   );
@@ -359,6 +371,12 @@ export function RecordingsPanel({
         await txtWriter.write(rec.transcript);
         await txtWriter.close();
       }
+      if (rec.words) {
+        const wordsHandle = await dirHandle.getFileHandle(`${base}.words.json`, { create: true });
+        const wordsWriter = await wordsHandle.createWritable();
+        await wordsWriter.write(JSON.stringify(rec.words, null, 2));
+        await wordsWriter.close();
+      }
     }
   }
 
@@ -0,0 +1,48 @@
+import type { FieldRevision } from '../types';
+import { fieldAuthorship, humanEditRatio, REVISION_KIND_LABELS } from '../lib/revisionLog';
+
+interface Props {
+  history: FieldRevision[];
+  finalText: string;
+}
+
+function formatWhen(at: number): string {
+  if (!at) return 'earlier session';
+  return new Date(at).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+}
+
+/** One field's steps, oldest first, with the share of its final words the annotator wrote. */
+export function RevisionHistory({ history, finalText }: Props) {
+  const ratio = humanEditRatio(fieldAuthorship(history, finalText));
+
+  return (
+    <div style={{ marginTop: '0.5rem', paddingLeft: '0.75rem', borderLeft: '1px solid var(--border-active)' }}>
+      <p style={{ margin: '0 0 0.375rem', fontFamily: 'var(--font-mono)', fontSize: '0.6875rem', color: 'var(--text-muted)' }}>
+        {ratio === null ? 'No text yet' : `${Math.round(ratio * 100)}% of the final words written by the annotator`}
+      </p>
+      {history.length === 0 && (
+        <p style={{ margin: 0, fontFamily: 'var(--font-mono)', fontSize: '0.6875rem', color: 'var(--text-dim)' }}>
+          No history recorded.
+        </p>
+      )}
+      {history.map((rev, i) => (
+        <div key={i} style={{ marginBottom: '0.5rem' }}>
+          <p style={{ margin: 0, fontFamily: 'var(--font-mono)', fontSize: '0.6875rem', color: 'var(--text-dim)' }}>
+            {formatWhen(rev.at)} ·{' '}
+            <span style={{ color: rev.kind.startsWith('polish') || rev.kind === 'draft_accepted' ? 'var(--amber)' : 'var(--text-muted)' }}>
+              {REVISION_KIND_LABELS[rev.kind]}
+            </span>
+            {rev.edited && ' (edited first)'}
+            {rev.provider && ` · ${rev.provider}${rev.model ? ` / ${rev.model}` : ''}`}
+            {rev.promptHash && ` · prompt #${rev.promptHash}`}
+          </p>
+          {rev.kind !== 'polish_rejected' && (
+            <p style={{ margin: '0.125rem 0 0', fontFamily: 'var(--font-serif)', fontSize: '0.8125rem', color: 'var(--text-muted)' }}>
+              {rev.text || '—'}
+            </p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,4 +1,20 @@
 import { useState, useEffect, useRef, useCallback } from 'react'
+import {
+  LLM_PROVIDERS,
+  DEFAULT_COMPATIBLE_BASE_URL,
+  loadLlmSettings,
+  saveLlmSettings,
+  llmComplete,
+  PolishUnavailableError,
+} from '../lib/llmProviders'
+import type { LlmProviderId, LlmSettings } from '../lib/llmProviders'
+import {
+  TRANSCRIPTION_BACKENDS,
+  DEFAULT_LOCAL_WHISPER_ENDPOINT,
+  loadTranscriptionSettings,
+  saveTranscriptionSettings,
+} from '../lib/transcription'
+import type { TranscriptionBackendId, TranscriptionSettings } from '../lib/transcription'
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -195,6 +211,188 @@ function ApiKeyField({
   )
 }
 
+// ─── LlmProviderSettings ──────────────────────────────────────────────────────
+
+const PROVIDER_KEY_LINKS: Record<LlmProviderId, { text: string; href: string }> = {
+  anthropic: { text: 'How to get an Anthropic API key', href: 'https://console.anthropic.com/settings/keys' },
+  openai: { text: 'How to get an OpenAI API key', href: 'https://platform.openai.com/api-keys' },
+  openai_compatible: { text: 'About OpenAI-compatible servers', href: 'https://github.com/ollama/ollama/blob/main/docs/openai.md' },
+}
+
+function LlmProviderSettings() {
+  const [settings, setSettings] = useState<LlmSettings>(loadLlmSettings)
+  const [test, setTest] = useState<{ state: 'idle' | 'testing' | 'ok' | 'error'; message: string }>({ state: 'idle', message: '' })
+  const provider = LLM_PROVIDERS[settings.provider]
+
+  function update(patch: Partial<LlmSettings>) {
+    const next = { ...settings, ...patch }
+    setSettings(next)
+    saveLlmSettings(next)
+    setTest({ state: 'idle', message: '' })
+  }
+
+  async function runTest() {
+    setTest({ state: 'testing', message: '' })
+    try {
+      await llmComplete({ system: 'Reply with the single word OK.', user: 'Connection test', maxTokens: 5 }, settings)
+      setTest({ state: 'ok', message: `Connected to ${provider.label} (${settings.model.trim() || provider.defaultModel}).` })
+    } catch (err) {
+      setTest({
+        state: 'error',
+        message: err instanceof PolishUnavailableError ? err.message : 'Connection test failed.',
+      })
+    }
+  }
+
+  return (
+    <div>
+      <p style={bodyText}>
+        Powers the optional style clean-up of notes. Pick a hosted provider or point at a
+        local OpenAI-compatible server (Ollama, llama.cpp, LM Studio, vLLM).
+      </p>
+      <label style={fieldLabel}>Provider</label>
+      <select
+        value={settings.provider}
+        onChange={e => update({ provider: e.target.value as LlmProviderId, model: '' })}
+        style={selectStyle}
+      >
+        {Object.values(LLM_PROVIDERS).map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+      </select>
+      <label style={fieldLabel}>Model</label>
+      <div style={{ display: 'flex', marginBottom: '0.5rem' }}>
+        <input
+          value={settings.model}
+          onChange={e => update({ model: e.target.value })}
+          placeholder={provider.defaultModel}
+          style={inputStyle}
+        />
+      </div>
+      {settings.provider === 'openai_compatible' && (
+        <>
+          <label style={fieldLabel}>Base URL</label>
+          <div style={{ display: 'flex', marginBottom: '0.75rem' }}>
+            <input
+              value={settings.baseUrl}
+              onChange={e => update({ baseUrl: e.target.value })}
+              placeholder={DEFAULT_COMPATIBLE_BASE_URL}
+              style={inputStyle}
+            />
+          </div>
+        </>
+      )}
+      {settings.provider === 'openai' ? (
+        <p style={bodyText}>Uses the OpenAI key from step 02.</p>
+      ) : (
+        <ApiKeyField
+          key={provider.id}
+          description={provider.keyRequired
+            ? `${provider.label} API key — kept for this browser session only.`
+            : 'API key, if your server requires one.'}
+          sessionKey={provider.keyStorage}
+          linkText={PROVIDER_KEY_LINKS[provider.id].text}
+          linkHref={PROVIDER_KEY_LINKS[provider.id].href}
+        />
+      )}
+      <div style={{ marginTop: '0.75rem' }}>
+        <button onClick={runTest} disabled={test.state === 'testing'} className="btn-ghost btn-small">
+          {test.state === 'testing' ? 'Testing…' : 'Test Connection'}
+        </button>
+        {test.message && (
+          <p style={{
+            marginTop: '0.5rem',
+            marginBottom: 0,
+            fontSize: '0.8rem',
+            fontFamily: 'var(--font-mono)',
+            color: test.state === 'ok' ? 'var(--success)' : 'var(--error)',
+          }}>
+            {test.state === 'ok' ? '✓ ' : ''}{test.message}
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
+
+// ─── TranscriptionBackendSettings ─────────────────────────────────────────────
+
+const BACKEND_NOTES: Record<TranscriptionBackendId, string> = {
+  openai_whisper: 'Hosted Whisper. Uses the OpenAI key from step 02.',
+  local_whisper: 'A whisper.cpp or faster-whisper server you run yourself. Dictation audio goes only to this server.',
+  browser_speech: "Chrome / Edge's built-in recognition, which sends audio to the browser vendor's speech service. Recordings can still be re-transcribed with OpenAI Whisper.",
+}
+
+function TranscriptionBackendSettings({ speechSupported }: { speechSupported: boolean }) {
+  const [settings, setSettings] = useState<TranscriptionSettings>(loadTranscriptionSettings)
+  const backend = TRANSCRIPTION_BACKENDS[settings.backend]
+
+  function update(patch: Partial<TranscriptionSettings>) {
+    const next = { ...settings, ...patch }
+    setSettings(next)
+    saveTranscriptionSettings(next)
+  }
+
+  return (
+    <div>
+      <p style={bodyText}>
+        Transcribes dictation. The browser backend transcribes live as you speak; the Whisper
+        backends transcribe each recording when you stop, and live-only features such as
+        Smart Dictate are turned off.
+      </p>
+      <label style={fieldLabel}>Backend</label>
+      <select
+        value={settings.backend}
+        onChange={e => update({ backend: e.target.value as TranscriptionBackendId, model: '' })}
+        style={selectStyle}
+      >
+        {Object.values(TRANSCRIPTION_BACKENDS).map(b => <option key={b.id} value={b.id}>{b.label}</option>)}
+      </select>
+      <p style={bodyText}>
+        {BACKEND_NOTES[backend.id]}{' '}
+        {backend.wordTimestamps ? 'Returns word-level timestamps.' : 'No word timestamps.'}
+      </p>
+      {backend.id === 'browser_speech' && !speechSupported && (
+        <p style={{ ...bodyText, color: 'var(--error)' }}>This browser has no Speech API — dictation will be unavailable.</p>
+      )}
+      {backend.transcribe && (
+        <>
+          <label style={fieldLabel}>Model</label>
+          <div style={{ display: 'flex', marginBottom: '0.5rem' }}>
+            <input
+              value={settings.model}
+              onChange={e => update({ model: e.target.value })}
+              placeholder={backend.defaultModel || "server's loaded model"}
+              style={inputStyle}
+            />
+          </div>
+        </>
+      )}
+      {backend.id === 'local_whisper' && (
+        <>
+          <label style={fieldLabel}>Endpoint URL</label>
+          <div style={{ display: 'flex', marginBottom: '0.5rem' }}>
+            <input
+              value={settings.endpoint}
+              onChange={e => update({ endpoint: e.target.value })}
+              placeholder={DEFAULT_LOCAL_WHISPER_ENDPOINT}
+              style={inputStyle}
+            />
+          </div>
+          <p style={{ ...bodyText, fontSize: '0.8rem' }}>
+            whisper.cpp server: <code>…:8080/inference</code> · faster-whisper server: <code>…:8000/v1/audio/transcriptions</code>.
+            The server must allow CORS from this page.
+          </p>
+          <ApiKeyField
+            description="API key, if your server requires one."
+            sessionKey={backend.keyStorage}
+            linkText="About the whisper.cpp server"
+            linkHref="https://github.com/ggerganov/whisper.cpp/tree/master/examples/server"
+          />
+        </>
+      )}
+    </div>
+  )
+}
+
 // ─── MicTest ─────────────────────────────────────────────────────────────────
 
 function MicTest({ selectedMicId, selectedSpeakerId }: { selectedMicId: string; selectedSpeakerId: string }) {
@@ -387,17 +585,35 @@ export default function SetupScreen({ onEnter }: SetupScreenProps) {
             OpenAI API Key <span style={{ color: 'var(--text-dim)', marginLeft: 4, fontWeight: 400, textTransform: 'none', letterSpacing: 0 }}>optional</span>
           </p>
           <ApiKeyField
-            description="Enables Whisper transcription and AI transcript polish for voice memos. Not required — the app works fully without it."
+            description="Enables Whisper transcription of voice memos, and the OpenAI provider for style clean-up. Not required — the app works fully without it."
             sessionKey="openai_api_key"
             linkText="How to get an OpenAI API key"
             linkHref="https://platform.openai.com/api-keys"
           />
         </div>
 
-        {/* STEP 3: AUDIO DEVICES */}
+        {/* STEP 3: AI TEXT PROVIDER */}
         <div style={card}>
           <p style={sectionTitle}>
             <span style={{ opacity: 0.5 }}>03 / </span>
+            AI Text Provider <span style={{ color: 'var(--text-dim)', marginLeft: 4, fontWeight: 400, textTransform: 'none', letterSpacing: 0 }}>optional</span>
+          </p>
+          <LlmProviderSettings />
+        </div>
+
+        {/* STEP 4: TRANSCRIPTION */}
+        <div style={card}>
+          <p style={sectionTitle}>
+            <span style={{ opacity: 0.5 }}>04 / </span>
+            Transcription <span style={{ color: 'var(--text-dim)', marginLeft: 4, fontWeight: 400, textTransform: 'none', letterSpacing: 0 }}>optional</span>
+          </p>
+          <TranscriptionBackendSettings speechSupported={support?.speechRecognition ?? true} />
+        </div>
+
+        {/* STEP 5: AUDIO DEVICES */}
+        <div style={card}>
+          <p style={sectionTitle}>
+            <span style={{ opacity: 0.5 }}>05 / </span>
             Audio Input & Output
           </p>
           <p style={bodyText}>
@@ -434,10 +650,10 @@ export default function SetupScreen({ onEnter }: SetupScreenProps) {
           )}
         </div>
 
-        {/* STEP 4: BROWSER COMPAT */}
+        {/* STEP 6: BROWSER COMPAT */}
         <div style={card}>
           <p style={sectionTitle}>
-            <span style={{ opacity: 0.5 }}>04 / </span>
+            <span style={{ opacity: 0.5 }}>06 / </span>
             Browser Compatibility
           </p>
           <p style={bodyText}>Chrome or Edge recommended for full feature support.</p>
@@ -0,0 +1,61 @@
+import type { TimelineEntry } from '../types';
+import { mergeTimelineEntries, suggestMergeIndex } from '../lib/timelineCondense';
+
+interface Props {
+  entries: TimelineEntry[];   // chronological order
+  maxRows: number;
+  onChange: (entries: TimelineEntry[]) => void;
+}
+
+/**
+ * Guided merge tool shown in Review when a timeline has more sections than the
+ * template holds. Each merge is explicit — the user picks which neighbours to join.
+ */
+export function TimelineCondenser({ entries, maxRows, onChange }: Props) {
+  const excess = entries.length - maxRows;
+  if (excess <= 0) return null;
+
+  const suggested = suggestMergeIndex(entries);
+
+  return (
+    <div className="notice-error" style={{ marginBottom: '1.5rem' }}>
+      <p className="label" style={{ color: 'var(--amber)', marginBottom: '0.375rem' }}>
+        CONDENSE SECTIONS — {entries.length} OF {maxRows}
+      </p>
+      <p style={{ margin: '0 0 0.75rem', fontSize: '0.8125rem', color: 'var(--text-muted)' }}>
+        The template holds {maxRows} sections. Merge {excess} more pair{excess === 1 ? '' : 's'} of
+        neighbouring sections to unlock export — narratives and tags are combined, nothing is dropped.
+      </p>
+
+      {entries.slice(0, -1).map((entry, i) => {
+        const next = entries[i + 1];
+        return (
+          <div
+            key={entry.id}
+            style={{
+              display: 'flex',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              gap: '0.75rem',
+              padding: '0.375rem 0',
+              borderBottom: '1px solid var(--border)',
+              fontFamily: 'var(--font-mono)',
+              fontSize: '0.75rem',
+            }}
+          >
+            <span style={{ color: i === suggested ? 'var(--amber)' : 'var(--text-muted)' }}>
+              {entry.timestamp} {entry.sectionType || '—'} + {next.timestamp} {next.sectionType || '—'}
+              {i === suggested && ' (suggested)'}
+            </span>
+            <button
+              className="btn-small"
+              onClick={() => onChange(mergeTimelineEntries(entries, i))}
+            >
+              Merge with next
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -5,6 +5,8 @@ import type {
   Phase,
   MarkEntryDraft,
   GlobalAnalysis,
+  GlobalDraft,
+  FieldRevision,
   TimelineEntry,
   TagDef,
   TagPack,
@@ -13,9 +15,21 @@ import type {
   UndoAction,
   TagPackImport,
   TagType,
+  TimelineOverflowStrategy,
+  LintConfig,
+  LintRuleConfig,
+  LintFix,
+  LintFixPatch,
+  PolishUpdate,
+  StyleProfile,
 } from '../types';
 import { getActiveTracks } from '../lib/schema';
 import { BUILTIN_PACKS, BUILTIN_TAGS, DEFAULT_LIBRARY_STATE } from '../lib/tagPacks';
+import { DEFAULT_TEMPLATE_PROFILE_ID } from '../lib/templateProfiles';
+import { DEFAULT_LINT_CONFIG } from '../lib/lintAnnotation';
+import { BUILTIN_STYLE_PROFILES, DEFAULT_STYLE_PROFILE_ID, mergeStyleProfilesWithSaved } from '../lib/styleProfiles';
+import { applyLintPatches, dedupeFixesByField, readPatchedField } from '../lib/lintFixes';
+import { fieldHistory, pruneRevisionLog } from '../lib/revisionLog';
 
 const STORAGE_KEY = 'tunetag_v1';
 const ANNOTATOR_KEY = 'tunetag_annotator';
@@ -28,6 +42,7 @@ function makeDefaultLibrary(): PromptsTagsLibraryState {
   return {
     packs: BUILTIN_PACKS,
     tags: BUILTIN_TAGS,
+    styleProfiles: BUILTIN_STYLE_PROFILES,
     ...DEFAULT_LIBRARY_STATE,
   };
 }
@@ -59,6 +74,10 @@ function makeDefaultAppState(): AppState {
     timerRunning: false,
     promptsTagsLibrary: makeDefaultLibrary(),
     undoStack: [],
+    templateProfileId: DEFAULT_TEMPLATE_PROFILE_ID,
+    timelineOverflowStrategy: 'condense',
+    lintConfig: DEFAULT_LINT_CONFIG,
+    styleProfileId: DEFAULT_STYLE_PROFILE_ID,
   };
 }
 
@@ -83,6 +102,8 @@ function loadSavedState(): AppState | null {
         packs: BUILTIN_PACKS,
         // Merge builtin tags with any custom tags already saved
         tags: mergeTagsWithSaved(parsed.promptsTagsLibrary?.tags),
+        // Builtin profiles stay current; custom ones are kept
+        styleProfiles: mergeStyleProfilesWithSaved(parsed.promptsTagsLibrary?.styleProfiles),
       },
       undoStack: parsed.undoStack ?? [],
     };
@@ -134,8 +155,33 @@ export interface UseAnnotationStateReturn {
   annotator: string;
   setAnnotator: (name: string) => void;
 
+  templateProfileId: string;
+  setTemplateProfileId: (id: string) => void;
+
+  timelineOverflowStrategy: TimelineOverflowStrategy;
+  setTimelineOverflowStrategy: (s: TimelineOverflowStrategy) => void;
+
+  lintConfig: LintConfig;
+  /** Merges an override into one rule's config; null restores the rule's defaults. */
+  setLintRuleConfig: (ruleId: string, patch: LintRuleConfig | null) => void;
+  resetLintConfig: () => void;
+
+  styleProfileId: string;
+  setStyleProfileId: (id: string) => void;
+  /** Adds a custom style profile, or replaces the one with the same id. */
+  saveStyleProfile: (profile: StyleProfile) => void;
+  deleteStyleProfile: (id: string) => void;
+
   updateTimeline: (trackId: number, entries: TimelineEntry[]) => void;
+  /** Applies lint quick-fixes (first fix per field wins) as one undoable action. */
+  applyLintFixes: (trackId: number, fixes: LintFix[]) => void;
   updateGlobal: (trackId: number, global: Partial<GlobalAnalysis>) => void;
+  /** Writes accepted polish results as one undoable action, marking each field polished. */
+  applyPolishUpdates: (trackId: number, updates: PolishUpdate[]) => void;
+  markGlobalPolished: (trackId: number, key: keyof GlobalAnalysis) => void;
+  setGlobalDrafts: (trackId: number, drafts: Partial<Record<keyof GlobalAnalysis, GlobalDraft>>) => void;
+  dismissGlobalDraft: (trackId: number, key: keyof GlobalAnalysis) => void;
+  logRevisions: (trackId: number, fieldId: string, revisions: FieldRevision[]) => void;
   setStatus: (
     trackId: number,
     status: TrackAnnotation['status'],
@@ -143,6 +189,7 @@ export interface UseAnnotationStateReturn {
   ) => void;
   updateElapsedSeconds: (trackId: number, seconds: number) => void;
   resetTrack: (trackId: number) => void;
+  mergeImportedAnnotations: (imported: TrackAnnotation[]) => void;
 
   // ── Prompts & Tags library actions ──────────────────────────────────────────
   library: PromptsTagsLibraryState;
@@ -311,6 +358,46 @@ export function useAnnotationState(): UseAnnotationStateReturn {
     [setAppState]
   );
 
+  const setTemplateProfileId = useCallback(
+    (id: string) => setAppState((p) => ({ ...p, templateProfileId: id })),
+    [setAppState]
+  );
+
+  const setTimelineOverflowStrategy = useCallback(
+    (s: TimelineOverflowStrategy) =>
+      setAppState((p) => ({ ...p, timelineOverflowStrategy: s })),
+    [setAppState]
+  );
+
+  const setLintRuleConfig = useCallback(
+    (ruleId: string, patch: LintRuleConfig | null) =>
+      setAppState((p) => {
+        const rules = { ...p.lintConfig.rules };
+        if (patch === null) {
+          delete rules[ruleId];
+        } else {
+          const prev = rules[ruleId] ?? {};
+          rules[ruleId] = {
+            ...prev,
+            ...patch,
+            options: { ...(prev.options ?? {}), ...(patch.options ?? {}) },
+          };
+        }
+        return { ...p, lintConfig: { ...p.lintConfig, rules } };
+      }),
+    [setAppState]
+  );
+
+  const resetLintConfig = useCallback(
+    () => setAppState((p) => ({ ...p, lintConfig: DEFAULT_LINT_CONFIG })),
+    [setAppState]
+  );
+
+  const setStyleProfileId = useCallback(
+    (id: string) => setAppState((p) => ({ ...p, styleProfileId: id })),
+    [setAppState]
+  );
+
   const updateTimeline = useCallback(
     (trackId: number, entries: TimelineEntry[]) => {
       setAppState((p) => ({
@@ -320,6 +407,7 @@ export function useAnnotationState(): UseAnnotationStateReturn {
           [trackId]: {
             ...p.annotations[trackId],
             timeline: entries,
+            revisionLog: pruneRevisionLog(p.annotations[trackId].revisionLog, entries),
             status:
               p.annotations[trackId].status === 'not_started'
                 ? 'in_progress'
@@ -331,6 +419,36 @@ export function useAnnotationState(): UseAnnotationStateReturn {
     [setAppState]
   );
 
+  const applyLintFixes = useCallback(
+    (trackId: number, fixes: LintFix[]) => {
+      setAppState((p) => {
+        const annotation = p.annotations[trackId];
+        const toApply = dedupeFixesByField(fixes);
+        if (!annotation || toApply.length === 0) return p;
+        const previous: LintFixPatch[] = toApply.map((f) => ({
+          ...f.patch,
+          value: readPatchedField(annotation, f.patch),
+        }));
+        const newUndo: UndoAction = {
+          id: crypto.randomUUID(),
+          label: toApply.length === 1 ? toApply[0].label : `${toApply.length} lint fixes`,
+          timestamp: Date.now(),
+          kind: 'lint_fix',
+          undoPayload: { trackId, previous },
+        };
+        return {
+          ...p,
+          annotations: {
+            ...p.annotations,
+            [trackId]: applyLintPatches(annotation, toApply.map((f) => f.patch)),
+          },
+          undoStack: [newUndo, ...p.undoStack].slice(0, UNDO_STACK_MAX),
+        };
+      });
+    },
+    [setAppState]
+  );
+
   const updateGlobal = useCallback(
     (trackId: number, global: Partial<GlobalAnalysis>) => {
       setAppState((p) => ({
@@ -344,6 +462,132 @@ export function useAnnotationState(): UseAnnotationStateReturn {
     [setAppState]
   );
 
+  const applyPolishUpdates = useCallback(
+    (trackId: number, updates: PolishUpdate[]) => {
+      setAppState((p) => {
+        const annotation = p.annotations[trackId];
+        if (!annotation || updates.length === 0) return p;
+        const byEntry = new Map<string, string>();
+        const globalPatch: Partial<GlobalAnalysis> = {};
+        for (const u of updates) {
+          if (u.target === 'timeline_entry') byEntry.set(u.entryId, u.value);
+          else globalPatch[u.key] = u.value;
+        }
+        const globalKeys = Object.keys(globalPatch) as (keyof GlobalAnalysis)[];
+
+        const newUndo: UndoAction = {
+          id: crypto.randomUUID(),
+          label: updates.length === 1 ? 'Accept polish' : `Accept ${updates.length} polished fields`,
+          timestamp: Date.now(),
+          kind: 'polish_accept',
+          undoPayload: {
+            trackId,
+            entries: annotation.timeline.filter((e) => byEntry.has(e.id)),
+            global: Object.fromEntries(globalKeys.map((k) => [k, annotation.global[k]])),
+            polishedGlobal: annotation.polishedGlobal,
+          },
+        };
+        return {
+          ...p,
+          annotations: {
+            ...p.annotations,
+            [trackId]: {
+              ...annotation,
+              timeline: annotation.timeline.map((e) => {
+                const value = byEntry.get(e.id);
+                if (value === undefined) return e;
+                // The rough notes survive as narrativeRaw; only the first polish sets it
+                return { ...e, narrative: value, narrativeRaw: e.narrativeRaw || e.narrative, wasPolished: true };
+              }),
+              global: { ...annotation.global, ...globalPatch },
+              polishedGlobal: Array.from(new Set([...(annotation.polishedGlobal ?? []), ...globalKeys])),
+            },
+          },
+          undoStack: [newUndo, ...p.undoStack].slice(0, UNDO_STACK_MAX),
+        };
+      });
+    },
+    [setAppState]
+  );
+
+  const markGlobalPolished = useCallback(
+    (trackId: number, key: keyof GlobalAnalysis) => {
+      setAppState((p) => {
+        const annotation = p.annotations[trackId];
+        if (!annotation || annotation.polishedGlobal?.includes(key)) return p;
+        return {
+          ...p,
+          annotations: {
+            ...p.annotations,
+            [trackId]: { ...annotation, polishedGlobal: [...(annotation.polishedGlobal ?? []), key] },
+          },
+        };
+      });
+    },
+    [setAppState]
+  );
+
+  const setGlobalDrafts = useCallback(
+    (trackId: number, drafts: Partial<Record<keyof GlobalAnalysis, GlobalDraft>>) => {
+      setAppState((p) => {
+        const annotation = p.annotations[trackId];
+        if (!annotation) return p;
+        return {
+          ...p,
+          annotations: {
+            ...p.annotations,
+            [trackId]: { ...annotation, globalDrafts: { ...annotation.globalDrafts, ...drafts } },
+          },
+        };
+      });
+    },
+    [setAppState]
+  );
+
+  const dismissGlobalDraft = useCallback(
+    (trackId: number, key: keyof GlobalAnalysis) => {
+      setAppState((p) => {
+        const annotation = p.annotations[trackId];
+        if (!annotation?.globalDrafts?.[key]) return p;
+        const globalDrafts = { ...annotation.globalDrafts };
+        delete globalDrafts[key];
+        return {
+          ...p,
+          annotations: {
+            ...p.annotations,
+            [trackId]: { ...annotation, globalDrafts },
+          },
+        };
+      });
+    },
+    [setAppState]
+  );
+
+  // Appends to a field's history; a field with none yet starts from what fieldHistory reconstructs
+  const logRevisions = useCallback(
+    (trackId: number, fieldId: string, revisions: FieldRevision[]) => {
+      if (revisions.length === 0) return;
+      setAppState((p) => {
+        const annotation = p.annotations[trackId];
+        if (!annotation) return p;
+        return {
+          ...p,
+          annotations: {
+            ...p.annotations,
+            [trackId]: {
+              ...annotation,
+              revisionLog: {
+                ...annotation.revisionLog,
+                [fieldId]: [...fieldHistory(annotation, fieldId), ...revisions],
+              },
+            },
+          },
+        };
+      });
+    },
+    [setAppState]
+  );
+
   const setStatus = useCallback(
     (
       trackId: number,
@@ -393,6 +637,35 @@ export function useAnnotationState(): UseAnnotationStateReturn {
     [setAppState]
   );
 
+  // Replaces annotator, timeline, global and status for each imported track,
+  // dropping the polish markers, drafts and revision history of the old text.
+  // Timer and resume state are kept from the local session.
+  const mergeImportedAnnotations = useCallback(
+    (imported: TrackAnnotation[]) => {
+      setAppState((p) => {
+        const annotations = { ...p.annotations };
+        for (const ann of imported) {
+          const existing = annotations[ann.track.id];
+          if (!existing) continue;
+          annotations[ann.track.id] = {
+            ...existing,
+            annotator: ann.annotator,
+            timeline: ann.timeline,
+            global: ann.global,
+            polishedGlobal: undefined,  // the imported global text hasn't been polished here
+            revisionLog: undefined,  // the old history no longer describes this text
+            globalDrafts: undefined,  // drafts summarised from the old timeline no longer apply
+            status: ann.status,
+            skipReason: ann.skipReason,
+            completedAt: ann.status === 'complete' ? existing.completedAt ?? Date.now() : existing.completedAt,
+          };
+        }
+        return { ...p, annotations };
+      });
+    },
+    [setAppState]
+  );
+
   // ── Library helper ───────────────────────────────────────────────────────
 
   const updateLibrary = useCallback(
@@ -426,6 +699,47 @@ export function useAnnotationState(): UseAnnotationStateReturn {
     setAppState((p) => {
       if (p.undoStack.length === 0) return p;
       const [latest, ...rest] = p.undoStack;
+
+      // Lint fixes edit an annotation rather than the library
+      if (latest.kind === 'lint_fix') {
+        const { trackId, previous } = latest.undoPayload as {
+          trackId: number;
+          previous: LintFixPatch[];
+        };
+        const annotation = p.annotations[trackId];
+        if (!annotation) return { ...p, undoStack: rest };
+        return {
+          ...p,
+          annotations: { ...p.annotations, [trackId]: applyLintPatches(annotation, previous) },
+          undoStack: rest,
+        };
+      }
+
+      if (latest.kind === 'polish_accept') {
+        const { trackId, entries, global, polishedGlobal } = latest.undoPayload as {
+          trackId: number;
+          entries: TimelineEntry[];
+          global: Partial<GlobalAnalysis>;
+          polishedGlobal?: (keyof GlobalAnalysis)[];
+        };
+        const annotation = p.annotations[trackId];
+        if (!annotation) return { ...p, undoStack: rest };
+        const previous = new Map(entries.map((e) => [e.id, e]));
+        return {
+          ...p,
+          annotations: {
+            ...p.annotations,
+            [trackId]: {
+              ...annotation,
+              timeline: annotation.timeline.map((e) => previous.get(e.id) ?? e),
+              global: { ...annotation.global, ...global },
+              polishedGlobal,
+            },
+          },
+          undoStack: rest,
+        };
+      }
+
       const lib = p.promptsTagsLibrary;
 
       // Apply the inverse operation based on action kind
@@ -504,6 +818,11 @@ export function useAnnotationState(): UseAnnotationStateReturn {
           newLib = { ...lib, phraseBank: [...lib.phraseBank, phrase] };
           break;
         }
+        case 'style_profile_delete': {
+          const { profile } = latest.undoPayload as { profile: StyleProfile };
+          newLib = { ...lib, styleProfiles: [...lib.styleProfiles, profile] };
+          break;
+        }
         default:
           break;
       }
@@ -666,6 +985,9 @@ export function useAnnotationState(): UseAnnotationStateReturn {
           const type: TagType = validTypes.includes(row.type as TagType)
             ? (row.type as TagType)
             : 'custom';
+          const aliases = Array.from(new Set(
+            (row.aliases ?? []).map((a) => a.trim().toLowerCase())
+          )).filter((a) => a && a !== normalized);
 
           if (existingNorms.has(normalized)) {
             // Merge: add packId to existing tag if not already there
@@ -674,6 +996,10 @@ export function useAnnotationState(): UseAnnotationStateReturn {
               existing.packIds = [...existing.packIds, raw.packId];
               merged++;
             }
+            const newAliases = aliases.filter((a) => !(existing.aliases ?? []).includes(a));
+            if (newAliases.length > 0) {
+              existing.aliases = [...(existing.aliases ?? []), ...newAliases];
+            }
           } else {
             const newTag: TagDef = {
               id: `imported_${crypto.randomUUID()}`,
@@ -683,6 +1009,7 @@ export function useAnnotationState(): UseAnnotationStateReturn {
               category: row.category ?? 'Imported',
               source: 'custom',
               packIds: [raw.packId],
+              ...(aliases.length > 0 ? { aliases } : {}),
             };
             newTags.push(newTag);
             addedTagIds.push(newTag.id);
@@ -837,6 +1164,50 @@ export function useAnnotationState(): UseAnnotationStateReturn {
     [setAppState]
   );
 
+  // ── Style profiles ───────────────────────────────────────────────────────
+
+  const saveStyleProfile = useCallback(
+    (profile: StyleProfile) => {
+      if (profile.source !== 'custom') return;
+      updateLibrary((lib) => {
+        const exists = lib.styleProfiles.some((sp) => sp.id === profile.id);
+        return {
+          ...lib,
+          styleProfiles: exists
+            ? lib.styleProfiles.map((sp) => (sp.id === profile.id ? profile : sp))
+            : [...lib.styleProfiles, profile],
+        };
+      });
+    },
+    [updateLibrary]
+  );
+
+  // A project using the deleted profile falls back to the builtin until undo
+  const deleteStyleProfile = useCallback(
+    (id: string) => {
+      setAppState((p) => {
+        const profile = p.promptsTagsLibrary.styleProfiles.find((sp) => sp.id === id);
+        if (!profile || profile.source !== 'custom') return p;
+        const newUndo: UndoAction = {
+          id: crypto.randomUUID(),
+          label: `Delete style profile "${profile.name}"`,
+          timestamp: Date.now(),
+          kind: 'style_profile_delete',
+          undoPayload: { profile },
+        };
+        return {
+          ...p,
+          promptsTagsLibrary: {
+            ...p.promptsTagsLibrary,
+            styleProfiles: p.promptsTagsLibrary.styleProfiles.filter((sp) => sp.id !== id),
+          },
+          undoStack: [newUndo, ...p.undoStack].slice(0, UNDO_STACK_MAX),
+        };
+      });
+    },
+    [setAppState]
+  );
+
   const addCustomSectionType = useCallback(
     (label: string) => {
       updateLibrary((lib) => {
@@ -879,11 +1250,29 @@ export function useAnnotationState(): UseAnnotationStateReturn {
     setTimerRunning,
     annotator,
     setAnnotator,
+    templateProfileId: appState.templateProfileId,
+    setTemplateProfileId,
+    timelineOverflowStrategy: appState.timelineOverflowStrategy,
+    setTimelineOverflowStrategy,
+    lintConfig: appState.lintConfig,
+    setLintRuleConfig,
+    resetLintConfig,
+    styleProfileId: appState.styleProfileId,
+    setStyleProfileId,
+    saveStyleProfile,
+    deleteStyleProfile,
     updateTimeline,
+    applyLintFixes,
     updateGlobal,
+    applyPolishUpdates,
+    markGlobalPolished,
+    setGlobalDrafts,
+    dismissGlobalDraft,
+    logRevisions,
     setStatus,
     updateElapsedSeconds,
     resetTrack,
+    mergeImportedAnnotations,
     library: appState.promptsTagsLibrary,
     addCustomTag,
     hideBuiltinTag,
@@ -1,4 +1,6 @@
 import { useState, useRef, useEffect, useCallback } from 'react';
+import { selectedBackend } from '../lib/transcription';
+import type { LiveRecognizer } from '../lib/transcription';
 
 const SPEECH_ERROR_MESSAGES: Record<string, string> = {
   'network': 'Network error — open the app on https://localhost:5173 (not http://).',
@@ -15,7 +17,7 @@ export interface UseDictationReturn {
   finalTranscript: string;
   /** True after 5 s of silence with no speech detected */
   noSpeechHint: boolean;
-  /** Start SpeechRecognition against the provided mic stream */
+  /** Start the selected backend's live recognizer against the provided mic stream */
   startDictation: (stream: MediaStream) => void;
   /** Stop SpeechRecognition gracefully */
   stopDictation: () => void;
@@ -31,7 +33,7 @@ export function useDictation(): UseDictationReturn {
   const [noSpeechHint, setNoSpeechHint] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const recognitionRef = useRef<any>(null);
+  const recognitionRef = useRef<LiveRecognizer | null>(null);
   const noSpeechTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   // Mutable ref so onresult closure always reads latest value without re-creating handlers
   const finalTranscriptRef = useRef('');
@@ -76,15 +78,13 @@ export function useDictation(): UseDictationReturn {
     setNoSpeechHint(false);
     setError(null);
 
-    const SpeechRecognitionCtor =
-      (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
+    const recognition = selectedBackend().listen?.() ?? null;
 
-    if (!SpeechRecognitionCtor) {
+    if (!recognition) {
       setError('Speech recognition not supported. Use Chrome or Edge.');
       return;
     }
 
-    const recognition = new SpeechRecognitionCtor();
     recognition.continuous = true;
     recognition.interimResults = true;
     recognition.lang = 'en-US';
@@ -97,7 +97,7 @@ export function useDictation(): UseDictationReturn {
       if (!finalTranscriptRef.current) setNoSpeechHint(true);
     }, 5000);
 
-    recognition.onresult = (event: any) => {
+    recognition.onresult = (event) => {
       let interim = '';
       let addedFinal = '';
       for (let i = event.resultIndex; i < event.results.length; i++) {
@@ -117,14 +117,14 @@ export function useDictation(): UseDictationReturn {
       setNoSpeechHint(false);
     };
 
-    recognition.onerror = (event: any) => {
+    recognition.onerror = (event) => {
       recognitionRef.current = null;
       if (event.error === 'no-speech') {
         // Non-fatal — audio is still being recorded; just show the hint
         setNoSpeechHint(true);
         return;
       }
-      const msg = SPEECH_ERROR_MESSAGES[event.error as string] ?? `Recording error: ${event.error}`;
+      const msg = SPEECH_ERROR_MESSAGES[event.error] ?? `Recording error: ${event.error}`;
       setError(msg);
     };
 
@@ -2,10 +2,12 @@ import { useState, useRef, useEffect } from 'react';
 import { useAudioRecorder, useDictation } from './index';
 import { INITIAL_DICTATION } from '../components/DictationOverlay';
 import type { DictationState } from '../components/DictationOverlay';
+import { selectedBackend, browserSpeechSupported, transcribeRecording } from '../lib/transcription';
+import type { TranscriptWord } from '../types';
 
 interface UseDictationFlowOptions {
   onComplete: (transcript: string, timestamp: string, wasRunning: boolean) => void;
-  onRecordingReady: (blob: Blob, mimeType: string, timestamp: string, transcript: string) => void;
+  onRecordingReady: (blob: Blob, mimeType: string, timestamp: string, transcript: string, words?: TranscriptWord[]) => void;
   onOpenRecordingsPanel: () => void;
 }
 
@@ -17,17 +19,32 @@ export function useDictationFlow({
   const [state, setState] = useState<DictationState>(INITIAL_DICTATION);
   const capturedTsRef = useRef('');
 
-  const isSupported =
-    typeof window !== 'undefined' &&
-    ('SpeechRecognition' in window || 'webkitSpeechRecognition' in window);
+  // A live backend streams speech as it is spoken; any other backend never
+  // sees the mic and transcribes the finished recording instead
+  const [backend] = useState(selectedBackend);
+  const isLive = backend.listen !== null;
+  const isSupported = isLive ? browserSpeechSupported() : true;
 
   const dictation = useDictation();
 
   const recorder = useAudioRecorder({
-    onRecordingReady: (blob, mimeType) => {
+    onRecordingReady: async (blob, mimeType) => {
       setState((p) => ({ ...p, status: 'finalizing' }));
-      onRecordingReady(blob, mimeType, capturedTsRef.current, dictation.finalTranscript);
-      setState((p) => ({ ...p, status: 'audio_saved' }));
+      let transcript = dictation.finalTranscript;
+      let words: TranscriptWord[] | undefined;
+      let transcribeError: string | undefined;
+      if (!isLive) {
+        try {
+          const result = await transcribeRecording(blob, mimeType);
+          transcript = result.text;
+          words = result.words ?? undefined;
+        } catch (e: unknown) {
+          // Non-fatal — the audio is kept and can be transcribed from the recordings panel
+          transcribeError = e instanceof Error ? e.message : 'Transcription failed.';
+        }
+      }
+      onRecordingReady(blob, mimeType, capturedTsRef.current, transcript, words);
+      setState((p) => ({ ...p, status: 'audio_saved', transcript, error: transcribeError }));
       setTimeout(() => {
         setState(INITIAL_DICTATION);
         dictation.reset();
@@ -63,7 +80,7 @@ export function useDictationFlow({
 
   async function startRecording() {
     if (!isSupported) {
-      setState((p) => ({ ...p, status: 'error', error: 'Speech recognition not supported. Use Chrome or Edge.' }));
+      setState((p) => ({ ...p, status: 'error', error: 'Speech recognition not supported. Use Chrome or Edge, or choose a Whisper backend in setup.' }));
       return;
     }
 
@@ -81,8 +98,11 @@ export function useDictationFlow({
       return;
     }
 
-    dictation.startDictation(result.stream);
-    setState((p) => ({ ...p, status: 'recording', transcript: '', noSpeechHint: false }));
+    if (isLive) dictation.startDictation(result.stream);
+    setState((p) => ({
+      ...p, status: 'recording', transcript: '', noSpeechHint: false,
+      transcribeAfter: isLive ? undefined : backend.label,
+    }));
   }
 
   function stopRecording() {
@@ -0,0 +1,186 @@
+import type { TrackAnnotation, GlobalAnalysis, PolishUpdate } from '../types';
+import { GLOBAL_CATEGORIES } from './schema';
+import { polishText, PolishUnavailableError } from './polishText';
+import type { PolishContext } from './polishText';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type PolishTarget =
+  | { target: 'timeline_entry'; entryId: string }
+  | { target: 'global_category'; key: keyof GlobalAnalysis };
+
+/** One field to send through polishText. */
+export interface PolishJob {
+  id: string;             // entry id, or "global:<key>"
+  label: string;          // "0:15 Verse" or a category's display label
+  original: string;
+  context: PolishContext;
+  target: PolishTarget;
+}
+
+export type PolishJobOutcome =
+  | { ok: true; text: string }
+  | { ok: false; error: string };
+
+export interface BatchPolishOptions {
+  concurrency?: number;   // requests in flight at once, default 3
+  maxRetries?: number;    // extra attempts after a 429, default 3
+  systemPrompt?: string;  // from the project's style profile; polishText's default otherwise
+  signal?: AbortSignal;   // stops starting new jobs; in-flight ones finish
+  onResult?: (job: PolishJob, outcome: PolishJobOutcome) => void;
+}
+
+export interface DiffPart {
+  text: string;
+  kind: 'same' | 'added' | 'removed';
+}
+
+// ─── Jobs ─────────────────────────────────────────────────────────────────────
+
+function isPolishable(text: string | undefined): text is string {
+  const t = (text ?? '').trim();
+  return t !== '' && t.toUpperCase() !== 'N/A' && t.toUpperCase() !== 'SKIPPED';
+}
+
+/**
+ * Every field on the track that hasn't been polished yet: timeline rows
+ * without `wasPolished`, then global categories not in `polishedGlobal`.
+ */
+export function collectPolishJobs(annotation: TrackAnnotation): PolishJob[] {
+  const jobs: PolishJob[] = [];
+  annotation.timeline.forEach((entry, i) => {
+    if (entry.wasPolished || !isPolishable(entry.narrative)) return;
+    const prev = annotation.timeline[i - 1];
+    jobs.push({
+      id: entry.id,
+      label: `${entry.timestamp} ${entry.sectionType}`.trim(),
+      original: entry.narrative,
+      context: {
+        type: 'timeline',
+        sectionType: entry.sectionType,
+        timestamp: entry.timestamp,
+        prev: prev ? { sectionType: prev.sectionType, narrative: prev.narrative } : undefined,
+      },
+      target: { target: 'timeline_entry', entryId: entry.id },
+    });
+  });
+
+  const polished = new Set(annotation.polishedGlobal ?? []);
+  for (const cat of GLOBAL_CATEGORIES) {
+    const key = cat.key as keyof GlobalAnalysis;
+    const value = annotation.global[key];
+    if (polished.has(key) || !isPolishable(value)) continue;
+    jobs.push({
+      id: `global:${key}`,
+      label: cat.displayLabel,
+      original: value,
+      context: { type: 'global', category: cat },
+      target: { target: 'global_category', key },
+    });
+  }
+  return jobs;
+}
+
+export function toPolishUpdate(job: PolishJob, value: string): PolishUpdate {
+  return { ...job.target, value };
+}
+
+// ─── Running ──────────────────────────────────────────────────────────────────
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => { clearTimeout(timer); resolve(); }, { once: true });
+  });
+}
+
+async function polishWithRetry(
+  job: PolishJob,
+  { maxRetries = 3, systemPrompt, signal }: BatchPolishOptions
+): Promise<string> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await polishText(job.original, job.context, systemPrompt);
+    } catch (e) {
+      const rateLimited = e instanceof PolishUnavailableError && e.reason === 'rate_limited';
+      if (!rateLimited || attempt >= maxRetries || signal?.aborted) throw e;
+      // Honour Retry-After when the provider sends it, otherwise back off 1s, 2s, 4s…
+      await wait((e.retryAfterSeconds ?? 2 ** attempt) * 1000, signal);
+    }
+  }
+}
+
+/**
+ * Polishes the jobs with at most `concurrency` requests in flight, retrying
+ * rate-limited ones. Each outcome is reported through `onResult` as it lands;
+ * the returned map has every job that ran, keyed by job id.
+ */
+export async function runBatchPolish(
+  jobs: PolishJob[],
+  options: BatchPolishOptions = {}
+): Promise<Map<string, PolishJobOutcome>> {
+  const { concurrency = 3, signal, onResult } = options;
+  const outcomes = new Map<string, PolishJobOutcome>();
+  let next = 0;
+
+  async function worker() {
+    while (next < jobs.length && !signal?.aborted) {
+      const job = jobs[next++];
+      let outcome: PolishJobOutcome;
+      try {
+        outcome = { ok: true, text: await polishWithRetry(job, options) };
+      } catch (e) {
+        outcome = { ok: false, error: e instanceof Error ? e.message : 'Polish failed' };
+      }
+      outcomes.set(job.id, outcome);
+      onResult?.(job, outcome);
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, jobs.length)) }, worker));
+  return outcomes;
+}
+
+// ─── Word diff ────────────────────────────────────────────────────────────────
+
+/**
+ * Word-level diff of `before` → `after` (longest common subsequence over
+ * words; whitespace rides along with the word before it).
+ */
+export function wordDiff(before: string, after: string): DiffPart[] {
+  const a = before.match(/\S+\s*/g) ?? [];
+  const b = after.match(/\S+\s*/g) ?? [];
+  const key = (w: string) => w.trim();
+
+  // lcs[i][j] = LCS length of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = key(a[i]) === key(b[j]) ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (text: string, kind: DiffPart['kind']) => {
+    const last = parts[parts.length - 1];
+    if (last && last.kind === kind) last.text += text;
+    else parts.push({ text, kind });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (key(a[i]) === key(b[j])) {
+      push(b[j], 'same');
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push(a[i++], 'removed');
+    } else {
+      push(b[j++], 'added');
+    }
+  }
+  while (i < a.length) push(a[i++], 'removed');
+  while (j < b.length) push(b[j++], 'added');
+  return parts;
+}
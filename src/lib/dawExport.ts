@@ -0,0 +1,134 @@
+import type { TimelineEntry } from '../types';
+import { timestampToSeconds } from './timestamps';
+
+// ─── Spans ────────────────────────────────────────────────────────────────────
+
+export interface DawSpan {
+  start: number;   // seconds
+  end: number;     // seconds — equal to start when the track duration is unknown
+  label: string;
+}
+
+/** Collapses whitespace so a label can't break a line- or tab-delimited format. */
+function cleanLabel(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Converts a timeline into chronological spans. Each section ends where the
+ * next one starts; the last ends at `durationSeconds`, or is a zero-length
+ * marker when the duration isn't known. Malformed timestamps are skipped.
+ */
+export function timelineToSpans(
+  timeline: TimelineEntry[],
+  durationSeconds: number | null
+): DawSpan[] {
+  const timed = timeline
+    .map((entry) => ({ entry, start: timestampToSeconds(entry.timestamp) }))
+    .filter((x): x is { entry: TimelineEntry; start: number } => x.start !== null)
+    .sort((a, b) => a.start - b.start);
+
+  return timed.map(({ entry, start }, i) => {
+    const next = timed[i + 1]?.start;
+    const end = next ?? (durationSeconds !== null && durationSeconds > start ? durationSeconds : start);
+    return { start, end, label: cleanLabel(entry.sectionType) || `Section ${i + 1}` };
+  });
+}
+
+// ─── Audacity ─────────────────────────────────────────────────────────────────
+
+/** Audacity label track: `start<TAB>end<TAB>label` per line (File → Import → Labels). */
+export function toAudacityLabels(spans: DawSpan[]): string {
+  return spans
+    .map((s) => `${s.start.toFixed(6)}\t${s.end.toFixed(6)}\t${s.label}\n`)
+    .join('');
+}
+
+// ─── Reaper ───────────────────────────────────────────────────────────────────
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Reaper Region/Marker Manager CSV. Spans with a length become regions (R#),
+ * zero-length spans become markers (M#). Times are in seconds.
+ */
+export function toReaperCsv(spans: DawSpan[]): string {
+  const lines = ['#,Name,Start,End,Length'];
+  let regions = 0;
+  let markers = 0;
+  for (const s of spans) {
+    const length = s.end - s.start;
+    if (length > 0) {
+      regions += 1;
+      lines.push(
+        [`R${regions}`, csvField(s.label), s.start.toFixed(3), s.end.toFixed(3), length.toFixed(3)].join(',')
+      );
+    } else {
+      markers += 1;
+      lines.push([`M${markers}`, csvField(s.label), s.start.toFixed(3), '', ''].join(','));
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+// ─── MIDI ─────────────────────────────────────────────────────────────────────
+
+const MIDI_PPQ = 480;
+const MIDI_BPM = 120;
+
+function varLen(value: number): number[] {
+  const bytes = [value & 0x7f];
+  let v = value >> 7;
+  while (v > 0) {
+    bytes.unshift((v & 0x7f) | 0x80);
+    v >>= 7;
+  }
+  return bytes;
+}
+
+function uint32(n: number): number[] {
+  return [(n >>> 24) & 0xff, (n >>> 16) & 0xff, (n >>> 8) & 0xff, n & 0xff];
+}
+
+/**
+ * Standard MIDI File (format 0, one track) holding a tempo event and one
+ * marker meta-event (FF 06) at the start of each section. The fixed 120 BPM
+ * tempo only sets the tick ↔ seconds mapping; DAWs place markers by time.
+ */
+export function toMidiMarkers(spans: DawSpan[]): ArrayBuffer {
+  const ticksPerSecond = (MIDI_PPQ * MIDI_BPM) / 60;
+  const encoder = new TextEncoder();
+  const usPerQuarter = Math.round(60_000_000 / MIDI_BPM);
+
+  const events: number[] = [
+    // Tempo: FF 51 03 tttttt
+    0x00, 0xff, 0x51, 0x03,
+    (usPerQuarter >> 16) & 0xff, (usPerQuarter >> 8) & 0xff, usPerQuarter & 0xff,
+  ];
+
+  let lastTick = 0;
+  for (const s of spans) {
+    const tick = Math.round(s.start * ticksPerSecond);
+    const text = Array.from(encoder.encode(s.label));
+    events.push(...varLen(tick - lastTick), 0xff, 0x06, ...varLen(text.length), ...text);
+    lastTick = tick;
+  }
+
+  // End of track, placed at the end of the last section
+  const endTick = spans.length > 0
+    ? Math.round(spans[spans.length - 1].end * ticksPerSecond)
+    : 0;
+  events.push(...varLen(Math.max(0, endTick - lastTick)), 0xff, 0x2f, 0x00);
+
+  const header = [
+    ...Array.from(encoder.encode('MThd')), ...uint32(6),
+    0x00, 0x00,                               // format 0
+    0x00, 0x01,                               // one track
+    (MIDI_PPQ >> 8) & 0xff, MIDI_PPQ & 0xff,  // ticks per quarter note
+  ];
+  const track = [...Array.from(encoder.encode('MTrk')), ...uint32(events.length), ...events];
+
+  return new Uint8Array([...header, ...track]).buffer;
+}
@@ -0,0 +1,155 @@
+import type { TrackAnnotation } from '../types';
+import { GLOBAL_CATEGORIES } from './schema';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** One comparable text field: a timeline narrative or a global category value. */
+export interface FieldText {
+  trackId: number;
+  trackLabel: string;     // sheet name, e.g. "Track 3"
+  field: string;          // "Timeline row 2" or a category's display label
+  text: string;
+}
+
+export interface DuplicateMatch {
+  field: FieldText;       // on the track being checked
+  other: FieldText;       // the most similar field on another track
+  similarity: number;     // Jaccard similarity of word shingles, 0–1
+}
+
+export interface DuplicateOptions {
+  minSimilarity?: number; // default 0.5
+  minWords?: number;      // shorter fields are skipped — short phrases repeat legitimately
+}
+
+/** A stretch of a passage, flagged when it's part of a shingle the other passage shares. */
+export interface SharedSegment {
+  text: string;
+  shared: boolean;
+}
+
+const SHINGLE_SIZE = 3;
+
+// ─── Shingling ────────────────────────────────────────────────────────────────
+
+interface Word {
+  key: string;            // lower-case, punctuation stripped
+  start: number;
+  end: number;
+}
+
+function words(text: string): Word[] {
+  return Array.from(text.matchAll(/\S+/g), (m) => ({
+    key: m[0].toLowerCase().replace(/[^\p{L}\p{N}']+/gu, ''),
+    start: m.index ?? 0,
+    end: (m.index ?? 0) + m[0].length,
+  })).filter((w) => w.key);
+}
+
+function shingleAt(ws: Word[], i: number): string {
+  return ws.slice(i, i + SHINGLE_SIZE).map((w) => w.key).join(' ');
+}
+
+/** Word 3-grams of a text, normalised. Texts shorter than three words yield one shingle. */
+export function shingles(text: string): Set<string> {
+  const ws = words(text);
+  if (ws.length === 0) return new Set();
+  if (ws.length < SHINGLE_SIZE) return new Set([ws.map((w) => w.key).join(' ')]);
+  const out = new Set<string>();
+  for (let i = 0; i <= ws.length - SHINGLE_SIZE; i++) out.add(shingleAt(ws, i));
+  return out;
+}
+
+export function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const s of a) if (b.has(s)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+// ─── Fields ───────────────────────────────────────────────────────────────────
+
+function isComparable(text: string, minWords: number): boolean {
+  const t = text.trim();
+  return t.toUpperCase() !== 'N/A' && t.toUpperCase() !== 'SKIPPED' && words(t).length >= minWords;
+}
+
+/** Every narrative and global value on a track, in review order. */
+export function collectFields(annotation: TrackAnnotation): FieldText[] {
+  const base = { trackId: annotation.track.id, trackLabel: annotation.track.sheetName };
+  const g = annotation.global as Record<string, string | undefined>;
+  return [
+    ...annotation.timeline.map((e, i) => ({ ...base, field: `Timeline row ${i + 1}`, text: e.narrative })),
+    ...GLOBAL_CATEGORIES.map((cat) => ({ ...base, field: cat.displayLabel, text: g[cat.key] ?? '' })),
+  ];
+}
+
+/**
+ * For each field on `annotation`, the most similar field on any other track
+ * when it clears `minSimilarity`. Narratives are compared with global values
+ * too — boilerplate moves between them.
+ */
+export function findCrossTrackDuplicates(
+  annotation: TrackAnnotation,
+  allAnnotations: Record<number, TrackAnnotation>,
+  options: DuplicateOptions = {}
+): DuplicateMatch[] {
+  const minSimilarity = options.minSimilarity ?? 0.5;
+  const minWords = options.minWords ?? 6;
+
+  const others = Object.values(allAnnotations)
+    .filter((a) => a.track.id !== annotation.track.id)
+    .flatMap(collectFields)
+    .filter((f) => isComparable(f.text, minWords))
+    .map((f) => ({ field: f, shingles: shingles(f.text) }));
+  if (others.length === 0) return [];
+
+  const matches: DuplicateMatch[] = [];
+  for (const field of collectFields(annotation)) {
+    if (!isComparable(field.text, minWords)) continue;
+    const own = shingles(field.text);
+    let best: DuplicateMatch | null = null;
+    for (const o of others) {
+      const similarity = jaccard(own, o.shingles);
+      if (similarity >= minSimilarity && (!best || similarity > best.similarity)) {
+        best = { field, other: o.field, similarity };
+      }
+    }
+    if (best) matches.push(best);
+  }
+  return matches;
+}
+
+/** Splits `text` into runs that are / aren't covered by a shingle also found in `otherText`. */
+export function sharedSegments(text: string, otherText: string): SharedSegment[] {
+  const ws = words(text);
+  const otherShingles = shingles(otherText);
+  const covered = new Array<boolean>(ws.length).fill(false);
+  if (ws.length < SHINGLE_SIZE) {
+    if (otherShingles.has(ws.map((w) => w.key).join(' '))) covered.fill(true);
+  } else {
+    for (let i = 0; i <= ws.length - SHINGLE_SIZE; i++) {
+      if (otherShingles.has(shingleAt(ws, i))) {
+        for (let j = i; j < i + SHINGLE_SIZE; j++) covered[j] = true;
+      }
+    }
+  }
+
+  const segments: SharedSegment[] = [];
+  const push = (part: string, shared: boolean) => {
+    const last = segments[segments.length - 1];
+    if (last && last.shared === shared) last.text += part;
+    else segments.push({ text: part, shared });
+  };
+
+  let pos = 0;
+  ws.forEach((w, i) => {
+    // Whitespace between two shared words stays inside the highlighted run
+    const gapShared = covered[i] && i > 0 && covered[i - 1];
+    if (w.start > pos) push(text.slice(pos, w.start), gapShared);
+    push(text.slice(w.start, w.end), covered[i]);
+    pos = w.end;
+  });
+  if (pos < text.length) push(text.slice(pos), false);
+  return segments;
+}
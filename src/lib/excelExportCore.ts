@@ -0,0 +1,266 @@
+import ExcelJS from 'exceljs';
+import type {
+  TrackAnnotation,
+  TemplateProfile,
+  TimelineEntry,
+  TimelineOverflowStrategy,
+} from '../types';
+import { GLOBAL_CATEGORIES } from './schema';
+import {
+  TUNETAG_V1_PROFILE,
+  TIMELINE_COLUMN_FIELDS,
+  timelineCell,
+  globalValueCell,
+} from './templateProfiles';
+import { timestampToSeconds } from './timestamps';
+
+// ─── Environment-neutral export core ──────────────────────────────────────────
+// No DOM or Node APIs here: the browser wrapper (excelExport.ts) and
+// scripts/validateExport.ts both call buildExportWorkbook, so the validator
+// exercises exactly the code the app ships.
+
+/** Template bytes: an ArrayBuffer in the browser, a Buffer (Uint8Array) in Node. */
+export type WorkbookInput = ArrayBuffer | Uint8Array;
+
+// Timezone-safe Excel time serial: fractional day
+// [m]:ss format displays as minutes:seconds without date offset
+export function parseTimestampToExcelSerial(mss: string): number | null {
+  const seconds = timestampToSeconds(mss);
+  return seconds === null ? null : seconds / 86400;
+}
+
+export interface ExportOptions {
+  overflow?: TimelineOverflowStrategy;  // default 'condense' — block, never truncate
+}
+
+export interface ExportCoreResult {
+  data: ArrayBuffer;        // the finished .xlsx bytes
+  createdSheets: string[];  // track sheets cloned from the profile's master sheet
+  missingSheets: string[];  // track sheets that could not be found or created
+  overflowRows: number;     // timeline rows written to the profile's overflow sheet
+}
+
+/** Thrown when a timeline exceeds the template and the strategy is 'condense'. */
+export class TimelineOverflowError extends Error {
+  constructor(public tracks: Array<{ sheetName: string; sections: number }>, public maxRows: number) {
+    super(
+      `Too many sections to export (maximum ${maxRows}): ` +
+        tracks.map((t) => `${t.sheetName} has ${t.sections}`).join(', ') +
+        ' — condense them in Review first'
+    );
+    this.name = 'TimelineOverflowError';
+  }
+}
+
+function isExportable(annotation: TrackAnnotation): boolean {
+  return annotation.status === 'complete' || annotation.status === 'skipped';
+}
+
+/**
+ * Copies a worksheet cell-by-cell into a new sheet: values, styles, column
+ * widths, row heights, merges and view settings. ExcelJS has no native clone.
+ */
+function cloneWorksheet(
+  wb: ExcelJS.Workbook,
+  master: ExcelJS.Worksheet,
+  name: string
+): ExcelJS.Worksheet {
+  const copy = wb.addWorksheet(name, {
+    properties: { ...master.properties },
+    pageSetup: { ...master.pageSetup },
+    views: master.views.map((v) => ({ ...v })),
+  });
+
+  master.columns.forEach((col, i) => {
+    const target = copy.getColumn(i + 1);
+    if (col.width !== undefined) target.width = col.width;
+    if (col.hidden) target.hidden = true;
+  });
+
+  master.eachRow({ includeEmpty: true }, (row, rowNumber) => {
+    const target = copy.getRow(rowNumber);
+    if (row.height !== undefined) target.height = row.height;
+    row.eachCell({ includeEmpty: true }, (cell, colNumber) => {
+      const t = target.getCell(colNumber);
+      // Merged slave cells take their value from the master cell after mergeCells()
+      if (cell.type !== ExcelJS.ValueType.Merge) t.value = cell.value;
+      t.style = JSON.parse(JSON.stringify(cell.style));
+    });
+  });
+
+  const merges: string[] = (master.model as { merges?: string[] }).merges ?? [];
+  for (const range of merges) copy.mergeCells(range);
+
+  return copy;
+}
+
+/**
+ * Creates a sheet for every exportable track whose sheetName is missing.
+ * Runs BEFORE any data is written so the master is cloned in its pristine state.
+ */
+function ensureTrackSheets(
+  wb: ExcelJS.Workbook,
+  annotations: TrackAnnotation[],
+  profile: TemplateProfile
+): { created: string[]; missing: string[] } {
+  const created: string[] = [];
+  const missing: string[] = [];
+  const master = wb.getWorksheet(profile.masterSheet);
+
+  for (const annotation of annotations) {
+    if (!isExportable(annotation)) continue;
+    const { sheetName, audioLabel } = annotation.track;
+    if (wb.getWorksheet(sheetName)) continue;
+
+    if (!master) {
+      console.error(`Sheet not found: ${sheetName} (no master sheet "${profile.masterSheet}" to clone)`);
+      missing.push(sheetName);
+      continue;
+    }
+
+    try {
+      const ws = cloneWorksheet(wb, master, sheetName);
+      ws.getCell(profile.metadata.audioLabel).value = audioLabel;
+      created.push(sheetName);
+    } catch (err) {
+      console.error(`Could not create sheet "${sheetName}":`, err);
+      missing.push(sheetName);
+    }
+  }
+
+  return { created, missing };
+}
+
+function writeTimestamp(cell: ExcelJS.Cell, timestamp: string, numFmt: string): void {
+  const serial = parseTimestampToExcelSerial(timestamp);
+  if (serial !== null) {
+    cell.value = serial;
+    cell.numFmt = numFmt;
+  } else {
+    cell.value = timestamp; // string fallback
+  }
+}
+
+const OVERFLOW_HEADERS = ['SHEET', 'TRACK', 'ROW', 'START TIME', 'SECTION TYPE', 'NARRATIVE', 'TAGS'];
+
+/**
+ * Appends timeline rows that don't fit the track sheet to the overflow sheet,
+ * creating it (with a header row) on first use.
+ */
+function writeOverflowRows(
+  wb: ExcelJS.Workbook,
+  annotation: TrackAnnotation,
+  entries: TimelineEntry[],
+  firstRowNumber: number,
+  profile: TemplateProfile
+): void {
+  let ws = wb.getWorksheet(profile.overflowSheet);
+  if (!ws) {
+    ws = wb.addWorksheet(profile.overflowSheet);
+    const header = ws.getRow(1);
+    header.values = OVERFLOW_HEADERS;
+    header.font = { bold: true };
+    OVERFLOW_HEADERS.forEach((_, i) => { ws!.getColumn(i + 1).width = i === 5 ? 80 : 16; });
+  }
+
+  entries.forEach((entry, i) => {
+    const row = ws!.addRow([
+      annotation.track.sheetName,
+      `${annotation.track.artist} - ${annotation.track.name}`,
+      firstRowNumber + i,
+      null,
+      entry.sectionType,
+      entry.narrative,
+      entry.tags,
+    ]);
+    writeTimestamp(row.getCell(4), entry.timestamp, profile.timeline.timestampNumFmt);
+  });
+}
+
+export async function buildExportWorkbook(
+  template: WorkbookInput,
+  annotations: TrackAnnotation[],
+  profile: TemplateProfile = TUNETAG_V1_PROFILE,
+  options: ExportOptions = {}
+): Promise<ExportCoreResult> {
+  const overflow = options.overflow ?? 'condense';
+
+  // 0. Never truncate silently — refuse up front when condensing is required
+  if (overflow === 'condense') {
+    const tooLong = annotations
+      .filter((a) => a.status === 'complete' && a.timeline.length > profile.timeline.maxRows)
+      .map((a) => ({ sheetName: a.track.sheetName, sections: a.timeline.length }));
+    if (tooLong.length > 0) throw new TimelineOverflowError(tooLong, profile.timeline.maxRows);
+  }
+
+  // 1. Load template
+  const wb = new ExcelJS.Workbook();
+  await wb.xlsx.load(template as ExcelJS.Buffer);
+  let overflowRows = 0;
+
+  // 1a. Clone the master sheet for custom tracks the template doesn't have
+  const { created, missing } = ensureTrackSheets(wb, annotations, profile);
+
+  // 2. Process each annotation
+  for (const annotation of annotations) {
+    if (!isExportable(annotation)) {
+      continue; // not_started or in_progress — skip
+    }
+
+    const ws = wb.getWorksheet(annotation.track.sheetName);
+    if (!ws) continue; // already reported in ensureTrackSheets
+
+    // 3. ALWAYS clear every timeline row first
+    for (let i = 0; i < profile.timeline.maxRows; i++) {
+      for (const field of TIMELINE_COLUMN_FIELDS) {
+        ws.getCell(timelineCell(profile, field, i)).value = null;
+      }
+    }
+
+    // 4. Write annotator name
+    ws.getCell(profile.metadata.annotator).value = annotation.annotator;
+
+    if (annotation.status === 'complete') {
+      // 4a. Fill the sheet's rows; anything beyond goes to the overflow sheet
+      const entries = annotation.timeline.slice(0, profile.timeline.maxRows);
+      const extra = annotation.timeline.slice(profile.timeline.maxRows);
+      if (extra.length > 0) {
+        writeOverflowRows(wb, annotation, extra, profile.timeline.maxRows + 1, profile);
+        overflowRows += extra.length;
+      }
+
+      for (let i = 0; i < entries.length; i++) {
+        const entry = entries[i];
+
+        writeTimestamp(
+          ws.getCell(timelineCell(profile, 'timestamp', i)),
+          entry.timestamp,
+          profile.timeline.timestampNumFmt
+        );
+
+        ws.getCell(timelineCell(profile, 'sectionType', i)).value = entry.sectionType;
+        ws.getCell(timelineCell(profile, 'narrative', i)).value = entry.narrative;
+        ws.getCell(timelineCell(profile, 'tags', i)).value = entry.tags;
+      }
+
+      // Global — write to the value column ONLY (never touch guidance text)
+      const g = annotation.global as Record<string, string>;
+      for (const cat of GLOBAL_CATEGORIES) {
+        ws.getCell(globalValueCell(profile, cat.key)).value = g[cat.key] ?? '';
+      }
+    } else if (annotation.status === 'skipped') {
+      // SKIPPED TRACK — minimal writes only
+      ws.getCell(profile.skipped.markerCell).value = 'SKIPPED';
+      ws.getCell(profile.skipped.reasonCell).value = annotation.skipReason
+        ? `Skipped — ${annotation.skipReason}`
+        : 'Skipped — annotator elected to skip this track';
+      // All other cells remain as cleared in step 3
+    }
+  }
+
+  // 5. Return bytes + summary. writeBuffer gives a Node Buffer under Node and
+  // an ArrayBuffer-like in the browser — copy into a plain ArrayBuffer either way.
+  const buf = await wb.xlsx.writeBuffer();
+  const data = new Uint8Array(buf).buffer;
+  return { data, createdSheets: created, missingSheets: missing, overflowRows };
+}
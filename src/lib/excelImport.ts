@@ -0,0 +1,264 @@
+import ExcelJS from 'exceljs';
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  TrackAnnotation,
+  TemplateProfile,
+  TimelineEntry,
+  GlobalAnalysis,
+} from '../types';
+import { GLOBAL_CATEGORIES } from './schema';
+import { TUNETAG_V1_PROFILE, timelineCell, globalValueCell } from './templateProfiles';
+import { secondsToTimestamp } from './timestamps';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface ExcelImportResult {
+  imported: TrackAnnotation[];   // one per track sheet that carried data
+  unmatchedSheets: string[];     // sheets that don't belong to any active track
+}
+
+export interface FieldChange {
+  field: string;
+  before: string;
+  after: string;
+}
+
+export interface TrackImportDiff {
+  trackId: number;
+  trackName: string;
+  changes: FieldChange[];
+}
+
+const SKIP_PREFIX = 'Skipped — ';
+const DEFAULT_SKIP_TEXT = 'Skipped — annotator elected to skip this track';
+
+// Excel's day-zero for the 1900 date system, as used by ExcelJS for Date cells
+const EXCEL_EPOCH_MS = Date.UTC(1899, 11, 30);
+
+// ─── Cell readers ─────────────────────────────────────────────────────────────
+
+/** Converts an [m]:ss fractional-day serial back to an M:SS timestamp. */
+export function excelSerialToTimestamp(serial: number): string {
+  return secondsToTimestamp(serial * 86400);
+}
+
+/** Plain-text value of a cell, flattening rich text, hyperlinks and formulas. */
+export function cellText(cell: ExcelJS.Cell): string {
+  const v = cell.value;
+  if (v === null || v === undefined) return '';
+  if (typeof v === 'string') return v.trim();
+  if (typeof v === 'number' || typeof v === 'boolean') return String(v);
+  if (v instanceof Date) return v.toISOString();
+  if ('richText' in v) return v.richText.map((r) => r.text).join('').trim();
+  if ('text' in v && typeof v.text === 'string') return v.text.trim();
+  if ('result' in v && v.result !== undefined) return String(v.result).trim();
+  return '';
+}
+
+/**
+ * Timestamp cells are written as serials with an [m]:ss format, which ExcelJS
+ * reads back as Date objects. Strings pass through (the exporter's fallback).
+ */
+function cellTimestamp(cell: ExcelJS.Cell): string {
+  const v = cell.value;
+  if (typeof v === 'number') return excelSerialToTimestamp(v);
+  if (v instanceof Date) {
+    return secondsToTimestamp((v.getTime() - EXCEL_EPOCH_MS) / 1000);
+  }
+  return cellText(cell);
+}
+
+// ─── Sheet parsing ────────────────────────────────────────────────────────────
+
+function readSheet(
+  ws: ExcelJS.Worksheet,
+  existing: TrackAnnotation,
+  profile: TemplateProfile
+): TrackAnnotation | null {
+  const annotator = cellText(ws.getCell(profile.metadata.annotator));
+
+  // Skipped tracks carry only the marker + reason
+  if (cellText(ws.getCell(profile.skipped.markerCell)) === 'SKIPPED') {
+    const reasonText = cellText(ws.getCell(profile.skipped.reasonCell));
+    const skipReason =
+      reasonText && reasonText !== DEFAULT_SKIP_TEXT
+        ? reasonText.replace(SKIP_PREFIX, '').trim()
+        : undefined;
+    return {
+      ...existing,
+      annotator,
+      timeline: [],
+      global: {},
+      status: 'skipped',
+      skipReason,
+    };
+  }
+
+  const timeline: TimelineEntry[] = [];
+  for (let i = 0; i < profile.timeline.maxRows; i++) {
+    const timestamp = cellTimestamp(ws.getCell(timelineCell(profile, 'timestamp', i)));
+    const sectionType = cellText(ws.getCell(timelineCell(profile, 'sectionType', i)));
+    const narrative = cellText(ws.getCell(timelineCell(profile, 'narrative', i)));
+    const tags = cellText(ws.getCell(timelineCell(profile, 'tags', i)));
+    if (!timestamp && !sectionType && !narrative && !tags) continue;
+
+    // Keep the existing entry (and its polish history) if the row is unchanged
+    const prev = existing.timeline[timeline.length];
+    if (
+      prev &&
+      prev.timestamp === timestamp &&
+      prev.sectionType === sectionType &&
+      prev.narrative === narrative &&
+      prev.tags === tags
+    ) {
+      timeline.push(prev);
+      continue;
+    }
+
+    timeline.push({
+      id: uuidv4(),
+      timestamp,
+      sectionType,
+      narrative,
+      narrativeRaw: narrative,
+      tags,
+      wasPolished: false,
+    });
+  }
+
+  const global: Partial<GlobalAnalysis> = {};
+  for (const cat of GLOBAL_CATEGORIES) {
+    const val = cellText(ws.getCell(globalValueCell(profile, cat.key)));
+    if (val) global[cat.key] = val;
+  }
+
+  // A sheet with no timeline and no global values was never filled in
+  if (timeline.length === 0 && Object.keys(global).length === 0) return null;
+
+  return {
+    ...existing,
+    annotator,
+    timeline,
+    global,
+    status: 'complete',
+    skipReason: undefined,
+  };
+}
+
+/**
+ * Rows the exporter wrote to the overflow sheet, grouped by track sheet name.
+ * Columns follow the exporter: SHEET | TRACK | ROW | START TIME | SECTION TYPE | NARRATIVE | TAGS.
+ */
+function readOverflowSheet(ws: ExcelJS.Worksheet): Map<string, TimelineEntry[]> {
+  const bySheet = new Map<string, TimelineEntry[]>();
+  ws.eachRow((row, rowNumber) => {
+    if (rowNumber === 1) return; // header
+    const sheetName = cellText(row.getCell(1));
+    if (!sheetName) return;
+    const narrative = cellText(row.getCell(6));
+    const entry: TimelineEntry = {
+      id: uuidv4(),
+      timestamp: cellTimestamp(row.getCell(4)),
+      sectionType: cellText(row.getCell(5)),
+      narrative,
+      narrativeRaw: narrative,
+      tags: cellText(row.getCell(7)),
+      wasPolished: false,
+    };
+    bySheet.set(sheetName, [...(bySheet.get(sheetName) ?? []), entry]);
+  });
+  return bySheet;
+}
+
+/**
+ * Reads a TuneTag workbook and rebuilds a TrackAnnotation for every active
+ * track whose sheet carries data. Nothing is merged here — callers show
+ * diffAnnotations() to the user first.
+ */
+export async function importAnnotationsFromExcel(
+  buffer: ArrayBuffer,
+  current: Record<number, TrackAnnotation>,
+  profile: TemplateProfile = TUNETAG_V1_PROFILE
+): Promise<ExcelImportResult> {
+  const wb = new ExcelJS.Workbook();
+  await wb.xlsx.load(buffer);
+
+  const bySheet = new Map(
+    Object.values(current).map((a) => [a.track.sheetName, a])
+  );
+
+  const imported: TrackAnnotation[] = [];
+  const unmatchedSheets: string[] = [];
+  const overflowWs = wb.getWorksheet(profile.overflowSheet);
+  const overflow = overflowWs ? readOverflowSheet(overflowWs) : new Map<string, TimelineEntry[]>();
+
+  wb.eachSheet((ws) => {
+    if (ws === overflowWs) return;
+    const existing = bySheet.get(ws.name);
+    if (!existing) {
+      unmatchedSheets.push(ws.name);
+      return;
+    }
+    const ann = readSheet(ws, existing, profile);
+    if (!ann) return;
+    const extra = ann.status === 'complete' ? overflow.get(ws.name) : undefined;
+    imported.push(extra ? { ...ann, timeline: [...ann.timeline, ...extra] } : ann);
+  });
+
+  return { imported, unmatchedSheets };
+}
+
+// ─── Diff ─────────────────────────────────────────────────────────────────────
+
+function formatEntry(e: TimelineEntry | undefined): string {
+  if (!e) return '';
+  return [e.timestamp, e.sectionType, e.narrative, e.tags ? `[${e.tags}]` : '']
+    .filter(Boolean)
+    .join(' · ');
+}
+
+/** Field-level differences between what's in the session and an imported copy. */
+export function diffAnnotations(
+  current: TrackAnnotation,
+  imported: TrackAnnotation
+): FieldChange[] {
+  const changes: FieldChange[] = [];
+
+  function push(field: string, before: string | undefined, after: string | undefined) {
+    const b = before ?? '';
+    const a = after ?? '';
+    if (b !== a) changes.push({ field, before: b, after: a });
+  }
+
+  push('Annotator', current.annotator, imported.annotator);
+  push('Status', current.status, imported.status);
+  push('Skip reason', current.skipReason, imported.skipReason);
+
+  const rows = Math.max(current.timeline.length, imported.timeline.length);
+  for (let i = 0; i < rows; i++) {
+    push(
+      `Timeline row ${i + 1}`,
+      formatEntry(current.timeline[i]),
+      formatEntry(imported.timeline[i])
+    );
+  }
+
+  const g0 = current.global as Record<string, string>;
+  const g1 = imported.global as Record<string, string>;
+  for (const cat of GLOBAL_CATEGORIES) {
+    push(cat.displayLabel, g0[cat.key], g1[cat.key]);
+  }
+
+  return changes;
+}
+
+export function diffImport(
+  current: Record<number, TrackAnnotation>,
+  imported: TrackAnnotation[]
+): TrackImportDiff[] {
+  return imported.map((ann) => ({
+    trackId: ann.track.id,
+    trackName: `${ann.track.artist} — ${ann.track.name}`,
+    changes: diffAnnotations(current[ann.track.id], ann),
+  }));
+}
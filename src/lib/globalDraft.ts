@@ -0,0 +1,165 @@
+import type { TrackAnnotation, GlobalAnalysis, GlobalDraft, TagDef, TagType, CategoryDef } from '../types';
+import { GLOBAL_CATEGORIES } from './schema';
+import { llmComplete, PolishUnavailableError } from './llmProviders';
+import { buildTagIndex, resolveTag, splitTagString, tagsMentionedIn } from './tagMatching';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type GlobalDrafts = Partial<Record<keyof GlobalAnalysis, GlobalDraft>>;
+
+export interface GlobalDraftResult {
+  drafts: GlobalDrafts;
+  source: GlobalDraft['source'];
+  notice?: string;           // why the tag aggregation was used instead
+}
+
+/** Categories still open for a draft: nothing written yet and no pending draft. */
+export function draftableCategories(annotation: TrackAnnotation): CategoryDef[] {
+  return GLOBAL_CATEGORIES.filter(
+    (c) => !(annotation.global[c.key] ?? '').trim() && !annotation.globalDrafts?.[c.key]
+  );
+}
+
+// ─── Tag aggregation ──────────────────────────────────────────────────────────
+
+const VOCAL_RE = /\b(vocal|vox|voice|rap|sung|singer|choir|harmon(y|ies))/i;
+
+// Which tag types feed which category; a vocal source feeds both instrumentation and vocals
+const TYPE_TARGETS: Partial<Record<TagType, (keyof GlobalAnalysis)[]>> = {
+  source: ['instrumentation'],
+  mix: ['mix'],
+  quality: ['playing'],
+};
+
+const MAX_LABELS = 8;
+
+/**
+ * Library tags used across the timeline — picked as tags or mentioned in a
+ * narrative — ordered by how many sections use them, then first appearance.
+ */
+export function timelineTagCounts(annotation: TrackAnnotation, tags: TagDef[]): Array<{ tag: TagDef; sections: number }> {
+  const index = buildTagIndex(tags);
+  const counts = new Map<string, { tag: TagDef; sections: number; first: number }>();
+  annotation.timeline.forEach((entry, i) => {
+    const picked = splitTagString(entry.tags).map((l) => resolveTag(l, index)).filter((t): t is TagDef => !!t);
+    const used = new Map([...picked, ...tagsMentionedIn(entry.narrative, tags)].map((t) => [t.id, t]));
+    for (const tag of used.values()) {
+      const c = counts.get(tag.id);
+      if (c) c.sections++;
+      else counts.set(tag.id, { tag, sections: 1, first: i });
+    }
+  });
+  return [...counts.values()]
+    .sort((a, b) => b.sections - a.sections || a.first - b.first)
+    .map(({ tag, sections }) => ({ tag, sections }));
+}
+
+/**
+ * Offline drafts: source tags → instrumentation (and vocals, for vocal
+ * sources), mix tags → mix, quality tags → playing style. Only categories in
+ * `keys`; a category with no matching tags gets no draft.
+ */
+export function draftGlobalFromTags(
+  annotation: TrackAnnotation,
+  tags: TagDef[],
+  keys: (keyof GlobalAnalysis)[]
+): GlobalDrafts {
+  const labels: Partial<Record<keyof GlobalAnalysis, string[]>> = {};
+  for (const { tag } of timelineTagCounts(annotation, tags)) {
+    const targets = [...(TYPE_TARGETS[tag.type] ?? [])];
+    if (tag.type === 'source' && VOCAL_RE.test(tag.label)) targets.push('vocals');
+    for (const key of targets) labels[key] = [...(labels[key] ?? []), tag.label];
+  }
+
+  const drafts: GlobalDrafts = {};
+  for (const key of keys) {
+    const list = labels[key]?.slice(0, MAX_LABELS);
+    if (list?.length) drafts[key] = { text: list.join(', '), source: 'timeline_tags' };
+  }
+  return drafts;
+}
+
+// ─── LLM ──────────────────────────────────────────────────────────────────────
+
+const SYSTEM_PROMPT = `You draft the global analysis of a music annotation from the annotator's own section-by-section timeline.
+Rules:
+1. Use only what the timeline says or clearly implies — never invent instruments, lyrics or facts
+2. Follow each category's guidance
+3. Present tense, no first person, no "This track"/"The song" openers, 1-3 sentences
+4. Leave out any category the timeline gives no evidence for
+5. Write "N/A" only for categories marked N/A allowed, and only when the timeline shows it does not apply
+6. Reply with ONLY a JSON object mapping category keys to text, e.g. {"mix": "..."}`;
+
+function timelineText(annotation: TrackAnnotation): string {
+  return annotation.timeline
+    .map((e) => `${e.timestamp} ${e.sectionType}: ${e.narrative}${e.tags.trim() ? ` [tags: ${e.tags}]` : ''}`)
+    .join('\n');
+}
+
+/**
+ * Reads the model's JSON object into drafts for the requested categories.
+ * Drops empty values and an "N/A" the category doesn't allow; throws
+ * bad_response if there is no object at all.
+ */
+export function parseGlobalDraftReply(reply: string, categories: CategoryDef[]): GlobalDrafts {
+  const match = reply.match(/\{[\s\S]*\}/);
+  let obj: unknown;
+  try {
+    obj = match ? JSON.parse(match[0]) : null;
+  } catch {
+    obj = null;
+  }
+  if (typeof obj !== 'object' || obj === null || Array.isArray(obj)) {
+    throw new PolishUnavailableError('bad_response', 'expected a JSON object of category drafts');
+  }
+
+  const values = obj as Record<string, unknown>;
+  const drafts: GlobalDrafts = {};
+  for (const cat of categories) {
+    const raw = values[cat.key];
+    const text = typeof raw === 'string' ? raw.trim() : '';
+    if (!text) continue;
+    if (text.toUpperCase() === 'N/A' && !cat.canBeNA) continue;
+    drafts[cat.key] = { text: text.toUpperCase() === 'N/A' ? 'N/A' : text, source: 'ai' };
+  }
+  return drafts;
+}
+
+export async function draftGlobalWithLlm(annotation: TrackAnnotation, categories: CategoryDef[]): Promise<GlobalDrafts> {
+  const categoryList = categories
+    .map((c) => `${c.key} — ${c.excelLabel}${c.canBeNA ? ' (N/A allowed)' : ''}: ${c.guidance}`)
+    .join('\n');
+  const reply = await llmComplete({
+    system: SYSTEM_PROMPT,
+    user: `Track: ${annotation.track.artist} — ${annotation.track.name}
+
+Timeline:
+${timelineText(annotation)}
+
+Categories to draft:
+${categoryList}`,
+    maxTokens: 1200,
+  });
+  return parseGlobalDraftReply(reply, categories);
+}
+
+/**
+ * First drafts for every category the annotator hasn't written yet: asks the
+ * configured LLM, falling back to tag aggregation when no provider is usable.
+ */
+export async function draftGlobalFromTimeline(annotation: TrackAnnotation, tags: TagDef[]): Promise<GlobalDraftResult> {
+  const categories = draftableCategories(annotation);
+  if (categories.length === 0 || annotation.timeline.length === 0) return { drafts: {}, source: 'ai' };
+  try {
+    return { drafts: await draftGlobalWithLlm(annotation, categories), source: 'ai' };
+  } catch (e) {
+    const notice = e instanceof PolishUnavailableError && e.reason === 'no_key'
+      ? 'No AI provider key — drafted from timeline tags instead'
+      : 'AI drafting unavailable — drafted from timeline tags instead';
+    return {
+      drafts: draftGlobalFromTags(annotation, tags, categories.map((c) => c.key)),
+      source: 'timeline_tags',
+      notice,
+    };
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Offline tense and voice heuristics for style rule 9 ("Use present tense.
+ * No first-person."). No parser — a lexicon of irregular past forms plus
+ * `-ed` detection with context and adjective exceptions. Tuned to miss
+ * rather than nag: every span it reports should be worth a second look.
+ */
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type GrammarIssueKind = 'past_tense' | 'first_person';
+
+/** A flagged word, as character offsets into the analysed text. */
+export interface GrammarSpan {
+  kind: GrammarIssueKind;
+  start: number;
+  end: number;       // exclusive
+  text: string;
+  message: string;
+}
+
+// ─── Lexicons ─────────────────────────────────────────────────────────────────
+
+// Unambiguous irregular past forms. Left out on purpose: words that are also
+// music nouns or adjectives ("felt" piano, "left" channel, "found" sound,
+// "held" notes, "cut", "hit", "set", "spread") and participles that mostly
+// describe ("made of", "built on").
+const IRREGULAR_PAST = new Set([
+  'was', 'were', 'had', 'did', 'went', 'came', 'became', 'began', 'broke',
+  'brought', 'bought', 'caught', 'chose', 'drove', 'drew', 'fell',
+  'fought', 'flew', 'forgot', 'froze', 'gave', 'got', 'grew', 'heard', 'kept',
+  'knew', 'led', 'lost', 'meant', 'met', 'overtook', 'ran', 'rang',
+  'rose', 'said', 'sang', 'sank', 'sat', 'saw', 'sent', 'shook', 'slid', 'sped',
+  'spoke', 'sprang', 'spun', 'stood', 'stole', 'struck', 'swam', 'swung',
+  'took', 'taught', 'told', 'thought', 'threw', 'understood', 'woke', 'wore',
+  'won', 'wrote',
+]);
+
+// -ed words that describe sound rather than narrate events.
+const ED_ADJECTIVES = new Set([
+  'aged', 'backed', 'based', 'bathed', 'beloved', 'blended', 'boosted',
+  'buried', 'chopped', 'clipped', 'compressed', 'crooked', 'crowded',
+  'cracked', 'crushed', 'dampened', 'detailed', 'detuned', 'distorted',
+  'doubled', 'drenched', 'dotted', 'echoed', 'enhanced',
+  'exaggerated', 'filtered', 'flanged', 'focused', 'gated', 'heated',
+  'hushed', 'isolated', 'jagged', 'layered', 'limited', 'looped', 'measured',
+  'mixed', 'muffled', 'muted', 'naked', 'panned', 'phased', 'pitched',
+  'plucked', 'polished', 'processed', 'ragged', 'relaxed', 'restrained',
+  'reversed', 'rounded', 'rugged', 'sacred', 'sampled', 'saturated',
+  'scattered', 'sculpted', 'shuffled', 'sidechained', 'skewed', 'slurred',
+  'soaked', 'stacked', 'strained', 'stripped', 'subdued', 'sustained',
+  'syncopated', 'textured', 'tired', 'tuned', 'unhurried', 'varied',
+  'warped', 'washed', 'wicked', 'wired',
+]);
+
+// Words before an -ed form that make it a participle or adjective:
+// "the layered pads", "is drenched", "has faded", "heavily compressed"
+const PARTICIPLE_CUES = new Set([
+  'a', 'an', 'the', 'this', 'these', 'those', 'its', 'their', 'his',
+  'her', 'is', 'are', 'am', 'be', 'been', 'being', 'get', 'gets', 'getting',
+  'has', 'have', 'having', 'very', 'more', 'less', 'most', 'slightly',
+  'fully', 'partly', 'well', 'over', 'under', 'un',
+]);
+
+// Words after an -ed form that mark a passive: "backed by", "layered with"
+const PASSIVE_FOLLOWERS = new Set(['by', 'with']);
+
+// Not verbs at all, despite the ending
+const ED_NON_VERBS = new Set(['bed', 'red', 'shed', 'sled', 'shred', 'hundred', 'kindred']);
+
+const FIRST_PERSON = new Set([
+  'i', 'me', 'my', 'mine', 'myself', 'we', 'us', 'our', 'ours', 'ourselves',
+  "i'm", "i've", "i'd", "i'll", "we're", "we've", "we'd", "we'll",
+]);
+
+// ─── Tokenising ───────────────────────────────────────────────────────────────
+
+interface Token {
+  word: string;   // lower-case, curly apostrophes normalised
+  raw: string;
+  start: number;
+  end: number;
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  const re = /[A-Za-z]+(?:['’-][A-Za-z]+)*/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(text)) !== null) {
+    tokens.push({
+      word: m[0].toLowerCase().replace(/’/g, "'"),
+      raw: m[0],
+      start: m.index,
+      end: m.index + m[0].length,
+    });
+  }
+  return tokens;
+}
+
+// ─── Detection ────────────────────────────────────────────────────────────────
+
+function isPastEd(tokens: Token[], i: number): boolean {
+  const { word } = tokens[i];
+  if (word.length < 5 || !word.endsWith('ed') || word.endsWith('eed')) return false;
+  if (word.includes('-') || ED_ADJECTIVES.has(word) || ED_NON_VERBS.has(word)) return false;
+  const prev = tokens[i - 1]?.word;
+  if (prev !== undefined && (PARTICIPLE_CUES.has(prev) || prev.endsWith('ly'))) return false;
+  const next = tokens[i + 1]?.word;
+  if (next !== undefined && PASSIVE_FOLLOWERS.has(next)) return false;
+  return true;
+}
+
+/** Verbs that look like past-tense narration ("the drums came in", "the bass dropped"). */
+export function findPastTense(text: string): GrammarSpan[] {
+  const tokens = tokenize(text);
+  return tokens
+    .filter((t, i) => IRREGULAR_PAST.has(t.word) || isPastEd(tokens, i))
+    .map((t) => ({
+      kind: 'past_tense' as const,
+      start: t.start,
+      end: t.end,
+      text: t.raw,
+      message: `"${t.raw}" looks like past tense — describe the music as it plays`,
+    }));
+}
+
+/** First-person pronouns (I, me, my, we, us, our…). "US" in capitals is left alone. */
+export function findFirstPerson(text: string): GrammarSpan[] {
+  return tokenize(text)
+    .filter((t) => FIRST_PERSON.has(t.word))
+    // Lower-case "i" is usually a typo for "I", but "US" is the country
+    .filter((t) => t.raw !== 'US')
+    .map((t) => ({
+      kind: 'first_person' as const,
+      start: t.start,
+      end: t.end,
+      text: t.raw,
+      message: `"${t.raw}" is first-person — describe what is heard, not the listener`,
+    }));
+}
+
+/** All tense and person spans in the text, in reading order. */
+export function analyzeGrammar(text: string): GrammarSpan[] {
+  return [...findPastTense(text), ...findFirstPerson(text)].sort((a, b) => a.start - b.start);
+}
+
+/** `"came", "dropped"` — the distinct flagged words, for a one-line lint message. */
+export function quoteSpans(spans: GrammarSpan[], max = 3): string {
+  const words = Array.from(new Set(spans.map((s) => s.text)));
+  const shown = words.slice(0, max).map((w) => `"${w}"`).join(', ');
+  return words.length > max ? `${shown} +${words.length - max} more` : shown;
+}
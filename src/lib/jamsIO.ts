@@ -0,0 +1,257 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { TrackAnnotation, TimelineEntry } from '../types';
+import { GLOBAL_CATEGORIES } from './schema';
+import { timestampToSeconds, secondsToTimestamp } from './timestamps';
+
+// ─── JAMS types ───────────────────────────────────────────────────────────────
+// Subset of the JSON Annotated Music Specification (jams 0.3) that TuneTag
+// reads and writes. See https://jams.readthedocs.io/en/stable/jams_structure.html
+
+export const JAMS_VERSION = '0.3.4';
+
+export interface JamsObservation {
+  time: number;        // seconds
+  duration: number;    // seconds
+  value: unknown;
+  confidence: number | null;
+}
+
+export interface JamsAnnotation {
+  namespace: string;
+  data: JamsObservation[];
+  annotation_metadata: {
+    curator: { name: string; email: string };
+    annotator: Record<string, unknown>;
+    version: string;
+    corpus: string;
+    annotation_tools: string;
+    annotation_rules: string;
+    validation: string;
+    data_source: string;
+  };
+  sandbox: Record<string, unknown>;
+  time: number;
+  duration: number | null;
+}
+
+export interface JamsFile {
+  file_metadata: {
+    title: string;
+    artist: string;
+    release: string;
+    duration: number | null;
+    identifiers: Record<string, string>;
+    jams_version: string;
+  };
+  annotations: JamsAnnotation[];
+  sandbox: Record<string, unknown>;
+}
+
+export interface JamsImportResult {
+  timeline: TimelineEntry[];
+  namespace: string;       // which segmentation namespace the timeline came from
+  curator: string;         // curator name from the annotation metadata, if any
+  warnings: string[];
+}
+
+// TuneTag writes narratives and tags as two tag_open annotations; the sandbox
+// field tells them apart on import.
+const TUNETAG_FIELD = 'tunetag_field';
+
+// ─── Export ───────────────────────────────────────────────────────────────────
+
+/**
+ * Builds a JAMS document for one track. Each section runs until the next
+ * section's timestamp; the last runs to `durationSeconds` when known, else 0.
+ * Entries with malformed timestamps are left out of the time-based namespaces.
+ */
+export function annotationToJams(
+  annotation: TrackAnnotation,
+  durationSeconds: number | null = null
+): JamsFile {
+  const { track } = annotation;
+
+  const timed = annotation.timeline
+    .map((entry) => ({ entry, time: timestampToSeconds(entry.timestamp) }))
+    .filter((x): x is { entry: TimelineEntry; time: number } => x.time !== null)
+    .sort((a, b) => a.time - b.time);
+
+  const spans = timed.map(({ entry, time }, i) => {
+    const end = i + 1 < timed.length ? timed[i + 1].time : durationSeconds ?? time;
+    return { entry, time, duration: Math.max(0, end - time) };
+  });
+
+  function metadata(rules: string): JamsAnnotation['annotation_metadata'] {
+    return {
+      curator: { name: annotation.annotator, email: '' },
+      annotator: { name: annotation.annotator },
+      version: '',
+      corpus: 'TuneTag',
+      annotation_tools: 'TuneTag Annotator',
+      annotation_rules: rules,
+      validation: '',
+      data_source: 'manual',
+    };
+  }
+
+  function annotationOf(
+    namespace: string,
+    data: JamsObservation[],
+    rules: string,
+    sandbox: Record<string, unknown> = {}
+  ): JamsAnnotation {
+    return {
+      namespace,
+      data,
+      annotation_metadata: metadata(rules),
+      sandbox,
+      time: 0,
+      duration: durationSeconds,
+    };
+  }
+
+  const segments = annotationOf(
+    'segment_open',
+    spans.map(({ entry, time, duration }) => ({
+      time,
+      duration,
+      value: entry.sectionType,
+      confidence: null,
+    })),
+    'Section boundaries and free-text section types'
+  );
+
+  const narratives = annotationOf(
+    'tag_open',
+    spans
+      .filter(({ entry }) => entry.narrative.trim())
+      .map(({ entry, time, duration }) => ({
+        time,
+        duration,
+        value: entry.narrative,
+        confidence: null,
+      })),
+    'Per-section narrative description',
+    { [TUNETAG_FIELD]: 'narrative' }
+  );
+
+  const tags = annotationOf(
+    'tag_open',
+    spans.flatMap(({ entry, time, duration }) =>
+      entry.tags
+        .split(',')
+        .map((t) => t.trim())
+        .filter(Boolean)
+        .map((value) => ({ time, duration, value, confidence: null }))
+    ),
+    'Per-section descriptive tags, one observation per tag',
+    { [TUNETAG_FIELD]: 'tags' }
+  );
+
+  const g = annotation.global as Record<string, string | undefined>;
+  const global: Record<string, string> = {};
+  for (const cat of GLOBAL_CATEGORIES) {
+    if (g[cat.key]?.trim()) global[cat.key] = g[cat.key]!;
+  }
+
+  return {
+    file_metadata: {
+      title: track.name,
+      artist: track.artist,
+      release: '',
+      duration: durationSeconds,
+      identifiers: {
+        spotify: track.spotifyId,
+        spotify_url: track.spotifyUrl,
+      },
+      jams_version: JAMS_VERSION,
+    },
+    annotations: [segments, narratives, tags],
+    sandbox: {
+      tunetag: {
+        status: annotation.status,
+        skipReason: annotation.skipReason ?? null,
+        elapsedSeconds: annotation.elapsedSeconds ?? 0,
+        global,
+      },
+    },
+  };
+}
+
+// ─── Import ───────────────────────────────────────────────────────────────────
+
+function isObservation(x: unknown): x is JamsObservation {
+  return (
+    typeof x === 'object' &&
+    x !== null &&
+    typeof (x as JamsObservation).time === 'number'
+  );
+}
+
+/**
+ * Reads a JAMS document and converts its segmentation into a starting
+ * timeline. Prefers TuneTag's own segment_open annotation, else the first
+ * segment_* namespace (e.g. segment_salami_upper from a reference dataset).
+ * Narratives and tags are only recovered from TuneTag-written files.
+ */
+export function jamsToTimeline(raw: unknown): JamsImportResult {
+  const warnings: string[] = [];
+
+  const jams = raw as Partial<JamsFile>;
+  if (!jams || typeof jams !== 'object' || !Array.isArray(jams.annotations)) {
+    throw new Error('Not a JAMS file — missing "annotations" array');
+  }
+
+  const segmentAnns = jams.annotations.filter(
+    (a) => typeof a?.namespace === 'string' && a.namespace.startsWith('segment_')
+  );
+  if (segmentAnns.length === 0) {
+    throw new Error('No segment_* annotation found in this JAMS file');
+  }
+  const seg = segmentAnns.find((a) => a.namespace === 'segment_open') ?? segmentAnns[0];
+  if (segmentAnns.length > 1) {
+    warnings.push(
+      `${segmentAnns.length} segmentations found — using the first ${seg.namespace} annotation`
+    );
+  }
+
+  const tuneTagAnn = (field: string) =>
+    jams.annotations!.find(
+      (a) => a.namespace === 'tag_open' && a.sandbox?.[TUNETAG_FIELD] === field
+    );
+
+  // Index narrative/tag observations by their start time
+  const narrativeAt = new Map<number, string>();
+  for (const obs of tuneTagAnn('narrative')?.data ?? []) {
+    if (isObservation(obs)) narrativeAt.set(obs.time, String(obs.value ?? ''));
+  }
+  const tagsAt = new Map<number, string[]>();
+  for (const obs of tuneTagAnn('tags')?.data ?? []) {
+    if (!isObservation(obs)) continue;
+    tagsAt.set(obs.time, [...(tagsAt.get(obs.time) ?? []), String(obs.value ?? '')]);
+  }
+
+  const observations = (seg.data ?? []).filter(isObservation).sort((a, b) => a.time - b.time);
+  const dropped = (seg.data ?? []).length - observations.length;
+  if (dropped > 0) warnings.push(`${dropped} malformed observation(s) ignored`);
+
+  const timeline: TimelineEntry[] = observations.map((obs) => {
+    const narrative = narrativeAt.get(obs.time) ?? '';
+    return {
+      id: uuidv4(),
+      timestamp: secondsToTimestamp(obs.time),
+      sectionType: obs.value === null || obs.value === undefined ? '' : String(obs.value),
+      narrative,
+      narrativeRaw: narrative,
+      tags: (tagsAt.get(obs.time) ?? []).join(', '),
+      wasPolished: false,
+    };
+  });
+
+  return {
+    timeline,
+    namespace: seg.namespace,
+    curator: seg.annotation_metadata?.curator?.name ?? '',
+    warnings,
+  };
+}
@@ -0,0 +1,123 @@
+import type { TrackAnnotation, TagDef, GlobalAnalysis } from '../types';
+import { GLOBAL_CATEGORIES } from './schema';
+import { stringToTagIds } from './tagLibrary';
+import { annotationAuthorship, humanEditRatio } from './revisionLog';
+import { timestampToSeconds } from './timestamps';
+
+// ─── Schema ───────────────────────────────────────────────────────────────────
+// One JSON object per line, one line per track. Bump JSONL_SCHEMA_VERSION on any
+// breaking change to the record shape; additive fields keep the version.
+
+export const JSONL_SCHEMA = 'tunetag.annotation';
+export const JSONL_SCHEMA_VERSION = 1;
+
+export interface TrainingTimelineEntry {
+  id: string;
+  timestamp: string;             // M:SS as entered
+  startSeconds: number | null;   // null if the timestamp is malformed
+  sectionType: string;
+  narrative: string;
+  narrativeRaw: string;
+  wasPolished: boolean;
+  isDictated: boolean;
+  tags: string[];                // labels as written in the entry
+  tagIds: string[];              // labels resolved against the tag library
+  unresolvedTags: string[];      // labels with no library match
+}
+
+export interface TrainingRecord {
+  schema: typeof JSONL_SCHEMA;
+  schemaVersion: typeof JSONL_SCHEMA_VERSION;
+  exportedAt: string;            // ISO 8601
+  track: {
+    id: number;
+    artist: string;
+    name: string;
+    spotifyId: string;
+    spotifyUrl: string;
+    sheetName: string;
+  };
+  annotator: string;
+  status: TrackAnnotation['status'];
+  skipReason: string | null;
+  elapsedSeconds: number;
+  startedAt: string | null;
+  completedAt: string | null;
+  timeline: TrainingTimelineEntry[];
+  global: Record<keyof GlobalAnalysis, string | null>;
+  provenance: {
+    humanWords: number;          // final words the annotator wrote or kept
+    aiWords: number;             // final words from accepted clean-ups and drafts
+    humanEditRatio: number | null; // humanWords / all words, 0–1; null with no text
+  };
+}
+
+// ─── Builders ─────────────────────────────────────────────────────────────────
+
+function isoOrNull(ms: number | undefined): string | null {
+  return ms ? new Date(ms).toISOString() : null;
+}
+
+export function toTrainingRecord(
+  annotation: TrackAnnotation,
+  allTags: TagDef[],
+  exportedAt: Date = new Date()
+): TrainingRecord {
+  const { track } = annotation;
+  const g = annotation.global as Record<string, string | undefined>;
+  const authorship = annotationAuthorship(annotation);
+
+  const global = {} as Record<keyof GlobalAnalysis, string | null>;
+  for (const cat of GLOBAL_CATEGORIES) {
+    global[cat.key] = g[cat.key]?.trim() ? g[cat.key]! : null;
+  }
+
+  return {
+    schema: JSONL_SCHEMA,
+    schemaVersion: JSONL_SCHEMA_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    track: {
+      id: track.id,
+      artist: track.artist,
+      name: track.name,
+      spotifyId: track.spotifyId,
+      spotifyUrl: track.spotifyUrl,
+      sheetName: track.sheetName,
+    },
+    annotator: annotation.annotator,
+    status: annotation.status,
+    skipReason: annotation.skipReason ?? null,
+    elapsedSeconds: annotation.elapsedSeconds ?? 0,
+    startedAt: isoOrNull(annotation.startedAt),
+    completedAt: isoOrNull(annotation.completedAt),
+    timeline: annotation.timeline.map((entry) => {
+      const { tagIds, unresolved } = stringToTagIds(entry.tags, allTags);
+      return {
+        id: entry.id,
+        timestamp: entry.timestamp,
+        startSeconds: timestampToSeconds(entry.timestamp),
+        sectionType: entry.sectionType,
+        narrative: entry.narrative,
+        narrativeRaw: entry.narrativeRaw,
+        wasPolished: entry.wasPolished,
+        isDictated: entry.isDictated ?? false,
+        tags: entry.tags.split(',').map((t) => t.trim()).filter(Boolean),
+        tagIds,
+        unresolvedTags: unresolved,
+      };
+    }),
+    global,
+    provenance: { ...authorship, humanEditRatio: humanEditRatio(authorship) },
+  };
+}
+
+/** Serialises annotations as JSONL — one record per line, trailing newline. */
+export function exportAnnotationsToJsonl(
+  annotations: TrackAnnotation[],
+  allTags: TagDef[]
+): string {
+  const exportedAt = new Date();
+  return annotations
+    .map((a) => JSON.stringify(toTrainingRecord(a, allTags, exportedAt)) + '\n')
+    .join('');
+}
@@ -1,170 +1,127 @@
-import type { TrackAnnotation, LintResult, LintIssue, Phase } from '../types';
-import { MAX_TIMELINE_ROWS, GLOBAL_CATEGORIES } from './schema';
-
-export function lintAnnotation(annotation: TrackAnnotation): LintResult {
-  const issues: LintIssue[] = [];
-
-  // ── ERRORS ──────────────────────────────────────────────────────────────────
-
-  if (!annotation.annotator.trim()) {
-    issues.push({
-      field: 'Annotator Name',
-      severity: 'error',
-      message: 'Annotator name is required',
-      phase: 'ready',
-    });
-  }
+import type {
+  TrackAnnotation,
+  LintResult,
+  LintIssue,
+  LintConfig,
+  LintSeverity,
+  TimelineOverflowStrategy,
+  TagDef,
+} from '../types';
+import { GLOBAL_CATEGORIES } from './schema';
+import { LINT_RULES } from './lintRules';
+import type { LintRule, LintRuleOptions, LintContext, LintFinding, LintTextSpan } from './lintRules';
+
+export interface LintOptions {
+  overflowStrategy?: TimelineOverflowStrategy;
+  maxTimelineRows?: number;  // the template profile's timeline.maxRows; defaults to MAX_TIMELINE_ROWS
+  config?: LintConfig;
+  tags?: TagDef[];  // session tags; lets the no-tags rule offer a fix
+  durationSeconds?: number | null;  // track length, for the past-track-end and long-gap rules
+  allAnnotations?: Record<number, TrackAnnotation>;  // enables the cross-track duplicate rule
+}
 
-  if (annotation.timeline.length === 0) {
-    issues.push({
-      field: 'Timeline',
-      severity: 'error',
-      message: 'No sections logged — add at least one timeline entry',
-      phase: 'listening',
-    });
-  }
+export const DEFAULT_LINT_CONFIG: LintConfig = { rules: {} };
 
-  if (annotation.timeline.length > MAX_TIMELINE_ROWS) {
-    issues.push({
-      field: 'Timeline',
-      severity: 'error',
-      message: `Too many sections (${annotation.timeline.length}) — maximum is ${MAX_TIMELINE_ROWS}`,
-      phase: 'listening',
-    });
-  }
+/** A rule's options: defaults, then the style profile's thresholds, then the project's overrides. */
+export function resolveRuleOptions(rule: LintRule, config: LintConfig | undefined): LintRuleOptions {
+  return {
+    ...rule.defaultOptions,
+    ...(config?.profileOptions?.[rule.id] ?? {}),
+    ...(config?.rules[rule.id]?.options ?? {}),
+  };
+}
 
-  for (let i = 0; i < annotation.timeline.length; i++) {
-    const entry = annotation.timeline[i];
-    if (!entry.sectionType.trim()) {
-      issues.push({
-        field: `Timeline row ${i + 1}`,
-        severity: 'error',
-        message: 'Missing section type',
-        phase: 'listening',
-      });
-    }
-    if (!entry.narrative.trim()) {
-      issues.push({
-        field: `Timeline row ${i + 1}`,
-        severity: 'error',
-        message: 'Missing narrative description',
-        phase: 'listening',
-      });
-    }
-  }
+export function isRuleEnabled(rule: LintRule, config: LintConfig | undefined): boolean {
+  return config?.rules[rule.id]?.enabled ?? true;
+}
 
-  for (const cat of GLOBAL_CATEGORIES) {
-    if (!cat.canBeNA) {
-      const val = (annotation.global as Record<string, string>)[cat.key];
-      if (!val || !val.trim()) {
-        issues.push({
-          field: cat.displayLabel,
-          severity: 'error',
-          message: `Required global category is empty`,
-          phase: 'global',
-        });
-      }
+function runRule(rule: LintRule, options: LintRuleOptions, ctx: LintContext): Array<LintFinding & { field: string }> {
+  const { annotation } = ctx;
+  switch (rule.target) {
+    case 'track':
+      return rule.check(options, ctx).map((f) => ({ ...f, field: f.field ?? 'Track' }));
+    case 'timeline_entry':
+      return annotation.timeline.flatMap((entry, i) =>
+        rule.check(entry, i, options, ctx).map((f) => ({ ...f, field: f.field ?? `Timeline row ${i + 1}` }))
+      );
+    case 'global_category': {
+      const g = annotation.global as Record<string, string | undefined>;
+      return GLOBAL_CATEGORIES.flatMap((cat) =>
+        rule.check(g[cat.key] ?? '', cat, options, ctx).map((f) => ({ ...f, field: f.field ?? cat.displayLabel }))
+      );
     }
   }
+}
 
-  // ── WARNINGS ─────────────────────────────────────────────────────────────────
-
-  if (
-    annotation.timeline.length > 0 &&
-    annotation.timeline.length < 3
-  ) {
-    issues.push({
-      field: 'Timeline',
-      severity: 'warning',
-      message: `Only ${annotation.timeline.length} section${annotation.timeline.length === 1 ? '' : 's'} logged — consider adding more structural detail`,
-      phase: 'listening',
-    });
-  }
-
-  for (let i = 0; i < annotation.timeline.length; i++) {
-    const entry = annotation.timeline[i];
-    const rowLabel = `Timeline row ${i + 1}`;
-
-    if (/\bI\b/.test(entry.narrative)) {
-      issues.push({
-        field: rowLabel,
-        severity: 'warning',
-        message: 'Appears to use first-person — check before submitting',
-        phase: 'listening',
-      });
-    }
-
-    if (/^(In this song|This track|The song)/i.test(entry.narrative)) {
-      issues.push({
-        field: rowLabel,
-        severity: 'warning',
-        message: "Avoid referential openers ('In this song', 'This track')",
-        phase: 'listening',
-      });
-    }
-
-    if (/\b(nice|cool|good)\b/i.test(entry.narrative)) {
-      issues.push({
-        field: rowLabel,
-        severity: 'warning',
-        message: "Vague adjective detected — be more specific",
-        phase: 'listening',
-      });
-    }
+/**
+ * Runs every enabled rule in LINT_RULES against one track. Severity is the
+ * project override, else what the rule computed, else the rule's default.
+ * Errors are listed before warnings; within a severity, registry order.
+ */
+export function lintAnnotation(
+  annotation: TrackAnnotation,
+  options: LintOptions = {}
+): LintResult {
+  const { config } = options;
+  const ctx: LintContext = {
+    annotation,
+    overflowStrategy: options.overflowStrategy,
+    maxTimelineRows: options.maxTimelineRows,
+    tags: options.tags,
+    durationSeconds: options.durationSeconds,
+    allAnnotations: options.allAnnotations,
+  };
+  const issues: LintIssue[] = [];
 
-    if (!entry.tags.trim()) {
+  for (const rule of LINT_RULES) {
+    if (!isRuleEnabled(rule, config)) continue;
+    const override: LintSeverity | undefined = config?.rules[rule.id]?.severity;
+    for (const finding of runRule(rule, resolveRuleOptions(rule, config), ctx)) {
       issues.push({
-        field: rowLabel,
-        severity: 'warning',
-        message: 'No tags — add instrument and vibe context',
-        phase: 'listening',
+        ruleId: rule.id,
+        field: finding.field,
+        severity: override ?? finding.severity ?? rule.defaultSeverity,
+        message: finding.message,
+        phase: rule.phase,
+        ...(finding.fixes && finding.fixes.length > 0 ? { fixes: finding.fixes } : {}),
       });
     }
   }
 
-  // Check all text fields for referential openers and vague adjectives
-  for (const cat of GLOBAL_CATEGORIES) {
-    const val = ((annotation.global as Record<string, string>)[cat.key] ?? '');
-    if (!val) continue;
-
-    if (/^(In this song|This track|The song)/i.test(val)) {
-      issues.push({
-        field: cat.displayLabel,
-        severity: 'warning',
-        message: "Avoid referential openers ('In this song', 'This track')",
-        phase: 'global',
-      });
-    }
+  const ordered = [
+    ...issues.filter((i) => i.severity === 'error'),
+    ...issues.filter((i) => i.severity === 'warning'),
+  ];
+  const canExport = !ordered.some((i) => i.severity === 'error');
+  return { issues: ordered, canExport };
+}
 
-    if (/\b(nice|cool|good)\b/i.test(val)) {
-      issues.push({
-        field: cat.displayLabel,
-        severity: 'warning',
-        message: "Vague adjective detected — be more specific",
-        phase: 'global',
-      });
-    }
-  }
+// ─── Inline (per-field) lint ──────────────────────────────────────────────────
 
-  const wowValue = (annotation.global as Record<string, string>)['wow'] ?? '';
-  if (wowValue.trim() && wowValue.trim().split(/\s+/).length < 15) {
-    issues.push({
-      field: "THE 'WOW' FACTOR",
-      severity: 'warning',
-      message: "Wow Factor seems brief — this is a critical field for TuneTag",
-      phase: 'global',
-    });
-  }
+export interface LintSpan extends LintTextSpan {
+  ruleId: string;
+  severity: LintSeverity;
+}
 
-  if ((annotation.elapsedSeconds ?? 0) > 1800) {
-    issues.push({
-      field: 'Session Timer',
-      severity: 'warning',
-      message: 'Session exceeded 30 minutes — TuneTag recommends staying under 30',
-      phase: 'listening',
-    });
+/**
+ * Span-level lint for the single field being edited — only rules that can
+ * point at a range (first person, tense, openers, vague words) and only the
+ * text itself, so it's cheap enough to run on every keystroke.
+ * Narratives use the timeline_entry rules; global values the global_category ones.
+ */
+export function lintTextSpans(
+  text: string,
+  target: 'timeline_entry' | 'global_category',
+  config?: LintConfig
+): LintSpan[] {
+  if (!text.trim()) return [];
+  const spans: LintSpan[] = [];
+  for (const rule of LINT_RULES) {
+    if (rule.target !== target || !rule.spans || !isRuleEnabled(rule, config)) continue;
+    const severity = config?.rules[rule.id]?.severity ?? rule.defaultSeverity;
+    for (const span of rule.spans(text, resolveRuleOptions(rule, config))) {
+      spans.push({ start: span.start, end: span.end, message: span.message, ruleId: rule.id, severity });
+    }
   }
-
-  const canExport = !issues.some((i) => i.severity === 'error');
-  return { issues, canExport };
+  return spans.sort((a, b) => a.start - b.start);
 }
@@ -0,0 +1,90 @@
+import type { TrackAnnotation, LintFix, LintFixPatch } from '../types';
+import { findFirstPerson } from './grammarHeuristics';
+
+// ─── Text rewrites ────────────────────────────────────────────────────────────
+
+function capitalizeFirst(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+// "In this song" is a prepositional phrase and can always go; "This track" /
+// "The song" are usually the sentence subject, so only strip them when
+// punctuation separates them from what follows.
+const STRIPPABLE_OPENER =
+  /^\s*(?:In (?:this|the) (?:song|track)\s*[,:;–—-]?|(?:This|The) (?:song|track)\s*[,:;–—-])\s*/i;
+
+/**
+ * Removes a referential opener ("In this song, the bass…" → "The bass…").
+ * Returns null when the opener can't be removed without rewording.
+ */
+export function stripReferentialOpener(text: string): string | null {
+  const match = text.match(STRIPPABLE_OPENER);
+  if (!match) return null;
+  const rest = text.slice(match[0].length);
+  return rest.trim() ? capitalizeFirst(rest) : null;
+}
+
+// Sentence-initial first-person framing that can be dropped, leaving the
+// observation itself: "I can hear a warm pad" → "A warm pad".
+const FIRST_PERSON_FRAME =
+  /(^|[.!?]\s+)I (?:can |could )?(?:really )?(?:hear|notice|detect|sense|think|feel|believe|love|like)(?: that| how| the way)?\s+(\S)/g;
+
+/**
+ * Drops first-person framing at the start of sentences. Returns null when
+ * any first-person word would remain — those need a human rewrite.
+ */
+export function rewriteFirstPerson(text: string): string | null {
+  const rewritten = text.replace(
+    FIRST_PERSON_FRAME,
+    (_m, lead: string, next: string) => lead + next.toUpperCase()
+  );
+  if (rewritten === text || findFirstPerson(rewritten).length > 0) return null;
+  return rewritten;
+}
+
+// ─── Applying patches ─────────────────────────────────────────────────────────
+
+/** Identifies the field a patch writes, so two fixes to one field can be detected. */
+export function patchKey(patch: LintFixPatch): string {
+  return patch.target === 'timeline_entry'
+    ? `entry:${patch.entryId}:${patch.field}`
+    : `global:${patch.key}`;
+}
+
+/** Reads the current value of the field a patch targets ('' if it's gone). */
+export function readPatchedField(annotation: TrackAnnotation, patch: LintFixPatch): string {
+  if (patch.target === 'global_category') return annotation.global[patch.key] ?? '';
+  const entry = annotation.timeline.find((e) => e.id === patch.entryId);
+  return entry ? entry[patch.field] : '';
+}
+
+/** Writes each patch into a copy of the annotation. Patches to missing rows are ignored. */
+export function applyLintPatches(annotation: TrackAnnotation, patches: LintFixPatch[]): TrackAnnotation {
+  let timeline = annotation.timeline;
+  let global = annotation.global;
+  for (const patch of patches) {
+    if (patch.target === 'global_category') {
+      global = { ...global, [patch.key]: patch.value };
+    } else {
+      timeline = timeline.map((e) =>
+        e.id === patch.entryId ? { ...e, [patch.field]: patch.value } : e
+      );
+    }
+  }
+  return { ...annotation, timeline, global };
+}
+
+/**
+ * Keeps only the first fix per field. Every fix's value is computed from the
+ * current text, so a second fix to the same field would discard the first —
+ * it will be offered again by the next lint pass.
+ */
+export function dedupeFixesByField(fixes: LintFix[]): LintFix[] {
+  const seen = new Set<string>();
+  return fixes.filter((fix) => {
+    const key = patchKey(fix.patch);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
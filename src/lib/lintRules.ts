@@ -0,0 +1,626 @@
+import type {
+  TrackAnnotation,
+  TimelineEntry,
+  CategoryDef,
+  LintSeverity,
+  LintTarget,
+  LintFix,
+  TagDef,
+  LintOptionValue,
+  Phase,
+  TimelineOverflowStrategy,
+} from '../types';
+import { MAX_TIMELINE_ROWS } from './schema';
+import { stripReferentialOpener, rewriteFirstPerson } from './lintFixes';
+import { timestampToSeconds, secondsToTimestamp } from './timestamps';
+import {
+  buildTagIndex,
+  resolveTag,
+  suggestTag,
+  findTagMention,
+  mentionsTerm,
+  tagsMentionedIn,
+  splitTagString,
+  joinTagLabels,
+} from './tagMatching';
+import { findPastTense, findFirstPerson, quoteSpans } from './grammarHeuristics';
+import { findCrossTrackDuplicates } from './duplicateDetection';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type LintRuleOptions = Record<string, LintOptionValue>;
+
+/** Extra inputs a rule may need beyond the annotation itself. */
+export interface LintContext {
+  annotation: TrackAnnotation;
+  overflowStrategy?: TimelineOverflowStrategy;
+  maxTimelineRows?: number;  // rows the selected template profile holds
+  tags?: TagDef[];           // session tags, for fixes that suggest tags
+  durationSeconds?: number | null;  // track length from the Spotify player, when known
+  allAnnotations?: Record<number, TrackAnnotation>;  // the whole session, for cross-track checks
+}
+
+/** What a rule's check returns. The engine adds ruleId, field and severity. */
+export interface LintFinding {
+  message: string;
+  field?: string;            // track rules name their own field; others get one from the target
+  severity?: LintSeverity;   // rule-computed severity, still overridden by project config
+  fixes?: LintFix[];
+}
+
+/** A character range within one text field, for inline highlighting while typing. */
+export interface LintTextSpan {
+  start: number;
+  end: number;               // exclusive
+  message: string;           // hover explanation
+}
+
+interface LintRuleBase {
+  id: string;
+  title: string;             // one line, shown in the rules settings tab
+  defaultSeverity: LintSeverity;
+  phase: Phase;              // where the user goes to fix it
+  defaultOptions: LintRuleOptions;
+}
+
+export interface TimelineEntryRule extends LintRuleBase {
+  target: 'timeline_entry';
+  check: (entry: TimelineEntry, index: number, options: LintRuleOptions, ctx: LintContext) => LintFinding[];
+  // Optional: offending ranges in the narrative alone, cheap enough to run per keystroke
+  spans?: (narrative: string, options: LintRuleOptions) => LintTextSpan[];
+}
+
+export interface GlobalCategoryRule extends LintRuleBase {
+  target: 'global_category';
+  check: (value: string, cat: CategoryDef, options: LintRuleOptions, ctx: LintContext) => LintFinding[];
+  spans?: (value: string, options: LintRuleOptions) => LintTextSpan[];
+}
+
+export interface TrackRule extends LintRuleBase {
+  target: 'track';
+  check: (options: LintRuleOptions, ctx: LintContext) => LintFinding[];
+}
+
+export type LintRule = TimelineEntryRule | GlobalCategoryRule | TrackRule;
+
+export const LINT_TARGET_LABELS: Record<LintTarget, string> = {
+  timeline_entry: 'Timeline row',
+  global_category: 'Global category',
+  track: 'Track',
+};
+
+// ─── Shared checks ────────────────────────────────────────────────────────────
+
+const REFERENTIAL_OPENER = /^(In this song|This track|The song)/i;
+
+/** Comma-separated word list option → word-boundary regex (null if empty). */
+function wordListRegex(list: LintOptionValue, flags = 'i'): RegExp | null {
+  const words = String(list)
+    .split(',')
+    .map((w) => w.trim())
+    .filter(Boolean)
+    .map((w) => w.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  return words.length > 0 ? new RegExp(`\\b(${words.join('|')})\\b`, flags) : null;
+}
+
+function openerSpans(text: string): LintTextSpan[] {
+  const match = text.match(REFERENTIAL_OPENER);
+  return match
+    ? [{ start: 0, end: match[0].length, message: `"${match[0]}" — start with the music itself` }]
+    : [];
+}
+
+function vagueWordSpans(text: string, list: LintOptionValue): LintTextSpan[] {
+  const re = wordListRegex(list, 'gi');
+  if (!re) return [];
+  return Array.from(text.matchAll(re), (m) => ({
+    start: m.index ?? 0,
+    end: (m.index ?? 0) + m[0].length,
+    message: `"${m[0]}" is vague — say what makes it so (warm, punchy, airy…)`,
+  }));
+}
+
+/** Timeline rows with a parseable timestamp, in stored (= export) order. */
+function timedRows(timeline: TimelineEntry[]): Array<{ row: number; seconds: number }> {
+  return timeline
+    .map((entry, i) => ({ row: i + 1, seconds: timestampToSeconds(entry.timestamp) }))
+    .filter((x): x is { row: number; seconds: number } => x.seconds !== null);
+}
+
+// Tag types that name something audible, so the narrative should mention them
+const CONCRETE_TAG_TYPES: ReadonlySet<TagDef['type']> = new Set(['source', 'genre_marker']);
+
+function tagsFix(entry: TimelineEntry, label: string, labels: string[]): LintFix[] {
+  const value = joinTagLabels(labels);
+  return [{
+    label,
+    preview: value || '(no tags)',
+    safe: false,
+    patch: { target: 'timeline_entry', entryId: entry.id, field: 'tags', value },
+  }];
+}
+
+function wordCount(text: string): number {
+  const t = text.trim();
+  return t ? t.split(/\s+/).length : 0;
+}
+
+function openerFix(text: string, patch: (value: string) => LintFix['patch']): LintFix[] {
+  const stripped = stripReferentialOpener(text);
+  return stripped === null
+    ? []
+    : [{ label: 'Strip opener', preview: stripped, safe: true, patch: patch(stripped) }];
+}
+
+const found = (message: string, extra: Omit<LintFinding, 'message'> = {}): LintFinding[] => [
+  { message, ...extra },
+];
+
+// ─── Registry ─────────────────────────────────────────────────────────────────
+// Order here is the order issues are reported in. Ids are stable — they are
+// the keys of the persisted LintConfig, so never rename one.
+
+export const LINT_RULES: LintRule[] = [
+  // ── Track ──
+  {
+    id: 'track/annotator-required',
+    title: 'Annotator name is set',
+    target: 'track',
+    defaultSeverity: 'error',
+    phase: 'ready',
+    defaultOptions: {},
+    check: (_o, { annotation }) =>
+      annotation.annotator.trim()
+        ? []
+        : found('Annotator name is required', { field: 'Annotator Name' }),
+  },
+  {
+    id: 'track/timeline-empty',
+    title: 'At least one timeline section',
+    target: 'track',
+    defaultSeverity: 'error',
+    phase: 'listening',
+    defaultOptions: {},
+    check: (_o, { annotation }) =>
+      annotation.timeline.length === 0
+        ? found('No sections logged — add at least one timeline entry', { field: 'Timeline' })
+        : [],
+  },
+  {
+    id: 'track/timeline-too-long',
+    title: 'Timeline fits the template rows',
+    target: 'track',
+    defaultSeverity: 'error',
+    phase: 'review',
+    defaultOptions: {},
+    check: (_o, { annotation, overflowStrategy, maxTimelineRows = MAX_TIMELINE_ROWS }) => {
+      const n = annotation.timeline.length;
+      if (n <= maxTimelineRows) return [];
+      return overflowStrategy === 'overflow_sheet'
+        ? found(
+            `${n} sections — the last ${n - maxTimelineRows} will be written to the Overflow sheet`,
+            { field: 'Timeline', severity: 'warning' }
+          )
+        : found(
+            `Too many sections (${n}) — maximum is ${maxTimelineRows}. Use "Condense sections" in Review to merge them`,
+            { field: 'Timeline' }
+          );
+    },
+  },
+  {
+    id: 'track/min-sections',
+    title: 'Enough sections for structural detail',
+    target: 'track',
+    defaultSeverity: 'warning',
+    phase: 'listening',
+    defaultOptions: { min: 3 },
+    check: (o, { annotation }) => {
+      const n = annotation.timeline.length;
+      if (n === 0 || n >= Number(o.min)) return [];
+      return found(
+        `Only ${n} section${n === 1 ? '' : 's'} logged — consider adding more structural detail`,
+        { field: 'Timeline' }
+      );
+    },
+  },
+  {
+    id: 'track/session-length',
+    title: 'Session stays under the time budget',
+    target: 'track',
+    defaultSeverity: 'warning',
+    phase: 'listening',
+    defaultOptions: { maxSeconds: 1800 },
+    check: (o, { annotation }) => {
+      const max = Number(o.maxSeconds);
+      if ((annotation.elapsedSeconds ?? 0) <= max) return [];
+      return found(
+        `Session exceeded ${Math.round(max / 60)} minutes — TuneTag recommends staying under ${Math.round(max / 60)}`,
+        { field: 'Session Timer' }
+      );
+    },
+  },
+  {
+    id: 'track/cross-track-duplicate',
+    title: 'No text reused from another track',
+    target: 'track',
+    defaultSeverity: 'warning',
+    phase: 'review',
+    defaultOptions: { minSimilarity: 0.5, minWords: 6 },
+    check: (o, { annotation, allAnnotations }) => {
+      if (!allAnnotations) return [];
+      return findCrossTrackDuplicates(annotation, allAnnotations, {
+        minSimilarity: Number(o.minSimilarity),
+        minWords: Number(o.minWords),
+      }).flatMap((m) =>
+        found(
+          `${Math.round(m.similarity * 100)}% the same as ${m.other.trackLabel} · ${m.other.field} — clients reject reused text`,
+          { field: m.field.field }
+        )
+      );
+    },
+  },
+  // ── Timeline structure ──
+  {
+    id: 'timeline/out-of-order',
+    title: 'Sections are in chronological order',
+    target: 'track',
+    defaultSeverity: 'warning',
+    phase: 'review',
+    defaultOptions: {},
+    check: (_o, { annotation }) => {
+      const rows = timedRows(annotation.timeline);
+      return rows.slice(1).flatMap((r, i) =>
+        r.seconds < rows[i].seconds
+          ? found(
+              `${secondsToTimestamp(r.seconds)} comes after ${secondsToTimestamp(rows[i].seconds)} — rows are exported in this order`,
+              { field: `Timeline row ${r.row}` }
+            )
+          : []
+      );
+    },
+  },
+  {
+    id: 'timeline/duplicate-timestamp',
+    title: 'No two sections share a timestamp',
+    target: 'track',
+    defaultSeverity: 'warning',
+    phase: 'review',
+    defaultOptions: {},
+    check: (_o, { annotation }) => {
+      const firstRowAt = new Map<number, number>();
+      return timedRows(annotation.timeline).flatMap((r) => {
+        const first = firstRowAt.get(r.seconds);
+        if (first === undefined) {
+          firstRowAt.set(r.seconds, r.row);
+          return [];
+        }
+        return found(`Same start time as row ${first} (${secondsToTimestamp(r.seconds)}) — merge or retime one`, {
+          field: `Timeline row ${r.row}`,
+        });
+      });
+    },
+  },
+  {
+    id: 'timeline/past-track-end',
+    title: 'Sections start before the track ends',
+    target: 'track',
+    defaultSeverity: 'warning',
+    phase: 'listening',
+    defaultOptions: { toleranceSeconds: 2 },
+    check: (o, { annotation, durationSeconds }) => {
+      if (durationSeconds == null) return [];
+      const limit = durationSeconds + Number(o.toleranceSeconds);
+      return timedRows(annotation.timeline).flatMap((r) =>
+        r.seconds > limit
+          ? found(`Starts at ${secondsToTimestamp(r.seconds)}, but the track is only ${secondsToTimestamp(durationSeconds)} long`, {
+              field: `Timeline row ${r.row}`,
+            })
+          : []
+      );
+    },
+  },
+  {
+    id: 'timeline/long-gap',
+    title: 'No unusually long gaps between sections',
+    target: 'track',
+    defaultSeverity: 'warning',
+    phase: 'listening',
+    defaultOptions: { maxGapSeconds: 90 },
+    check: (o, { annotation, durationSeconds }) => {
+      const max = Number(o.maxGapSeconds);
+      const starts = timedRows(annotation.timeline).map((r) => r.seconds).sort((a, b) => a - b);
+      // The stretch after the last section counts too, when the track length is known
+      if (durationSeconds != null && starts.length > 0) starts.push(durationSeconds);
+      return starts.slice(1).flatMap((end, i) =>
+        end - starts[i] > max
+          ? found(
+              `${Math.round(end - starts[i])}s with no new section (${secondsToTimestamp(starts[i])}–${secondsToTimestamp(end)}) — anything change in there?`,
+              { field: 'Timeline' }
+            )
+          : []
+      );
+    },
+  },
+  {
+    id: 'timeline/first-section-start',
+    title: 'The first section starts near 0:00',
+    target: 'track',
+    defaultSeverity: 'warning',
+    phase: 'listening',
+    defaultOptions: { maxStartSeconds: 5 },
+    check: (o, { annotation }) => {
+      const starts = timedRows(annotation.timeline).map((r) => r.seconds);
+      if (starts.length === 0) return [];
+      const first = Math.min(...starts);
+      return first > Number(o.maxStartSeconds)
+        ? found(`The earliest section starts at ${secondsToTimestamp(first)} — describe the opening too`, { field: 'Timeline' })
+        : [];
+    },
+  },
+  // ── Timeline entries ──
+  {
+    id: 'entry/timestamp-format',
+    title: 'Timestamps are M:SS',
+    target: 'timeline_entry',
+    defaultSeverity: 'warning',
+    phase: 'listening',
+    defaultOptions: {},
+    check: (entry) =>
+      timestampToSeconds(entry.timestamp) === null
+        ? found(`Timestamp "${entry.timestamp}" isn't M:SS — it would be exported as text`)
+        : [],
+  },
+  {
+    id: 'entry/section-type-required',
+    title: 'Every row has a section type',
+    target: 'timeline_entry',
+    defaultSeverity: 'error',
+    phase: 'listening',
+    defaultOptions: {},
+    check: (entry) => (entry.sectionType.trim() ? [] : found('Missing section type')),
+  },
+  {
+    id: 'entry/narrative-required',
+    title: 'Every row has a narrative',
+    target: 'timeline_entry',
+    defaultSeverity: 'error',
+    phase: 'listening',
+    defaultOptions: {},
+    check: (entry) => (entry.narrative.trim() ? [] : found('Missing narrative description')),
+  },
+  {
+    id: 'entry/first-person',
+    title: 'No first-person narration',
+    target: 'timeline_entry',
+    defaultSeverity: 'warning',
+    phase: 'listening',
+    defaultOptions: {},
+    spans: (text) => findFirstPerson(text),
+    check: (entry) => {
+      const spans = findFirstPerson(entry.narrative);
+      if (spans.length === 0) return [];
+      const rewritten = rewriteFirstPerson(entry.narrative);
+      return found(`First-person ${quoteSpans(spans)} — describe what is heard, not the listener`, {
+        fixes: rewritten === null ? [] : [{
+          label: 'Drop first-person framing',
+          preview: rewritten,
+          safe: false,
+          patch: { target: 'timeline_entry', entryId: entry.id, field: 'narrative', value: rewritten },
+        }],
+      });
+    },
+  },
+  {
+    id: 'entry/past-tense',
+    title: 'Narrative is in the present tense',
+    target: 'timeline_entry',
+    defaultSeverity: 'warning',
+    phase: 'listening',
+    defaultOptions: {},
+    spans: (text) => findPastTense(text),
+    check: (entry) => {
+      const spans = findPastTense(entry.narrative);
+      return spans.length === 0 ? [] : found(`Past tense ${quoteSpans(spans)} — use present tense`);
+    },
+  },
+  {
+    id: 'entry/referential-opener',
+    title: "No 'In this song' / 'This track' openers",
+    target: 'timeline_entry',
+    defaultSeverity: 'warning',
+    phase: 'listening',
+    defaultOptions: {},
+    spans: openerSpans,
+    check: (entry) =>
+      REFERENTIAL_OPENER.test(entry.narrative)
+        ? found("Avoid referential openers ('In this song', 'This track')", {
+            fixes: openerFix(entry.narrative, (value) => ({
+              target: 'timeline_entry', entryId: entry.id, field: 'narrative', value,
+            })),
+          })
+        : [],
+  },
+  {
+    id: 'entry/vague-adjective',
+    title: 'No vague adjectives',
+    target: 'timeline_entry',
+    defaultSeverity: 'warning',
+    phase: 'listening',
+    defaultOptions: { words: 'nice, cool, good' },
+    spans: (text, o) => vagueWordSpans(text, o.words),
+    check: (entry, _i, o) =>
+      wordListRegex(o.words)?.test(entry.narrative)
+        ? found('Vague adjective detected — be more specific')
+        : [],
+  },
+  {
+    id: 'entry/no-tags',
+    title: 'Every row has tags',
+    target: 'timeline_entry',
+    defaultSeverity: 'warning',
+    phase: 'listening',
+    defaultOptions: {},
+    check: (entry, _i, _o, { tags }) => {
+      if (entry.tags.trim()) return [];
+      const mentioned = [...new Set(tagsMentionedIn(entry.narrative, tags ?? []).map((t) => t.label))];
+      return found('No tags — add instrument and vibe context', {
+        fixes: mentioned.length === 0 ? [] : tagsFix(entry, 'Add tags from narrative', mentioned),
+      });
+    },
+  },
+  {
+    id: 'entry/unknown-tag',
+    title: 'Tags come from an enabled pack',
+    target: 'timeline_entry',
+    defaultSeverity: 'warning',
+    phase: 'listening',
+    defaultOptions: {},
+    check: (entry, _i, _o, { tags }) => {
+      if (!tags) return [];
+      const index = buildTagIndex(tags);
+      const labels = splitTagString(entry.tags);
+      return labels.flatMap((label, li) => {
+        if (resolveTag(label, index)) return [];
+        const suggestion = suggestTag(label, index);
+        if (!suggestion) {
+          return found(`"${label}" isn't in any enabled pack — check the spelling or add it as a custom tag`);
+        }
+        const corrected = labels.map((l, j) => (j === li ? suggestion.label : l));
+        return found(`"${label}" isn't in any enabled pack — did you mean "${suggestion.label}"?`, {
+          fixes: tagsFix(entry, `Use "${suggestion.label}"`, corrected),
+        });
+      });
+    },
+  },
+  {
+    id: 'entry/untagged-instrument',
+    title: 'Instruments in the narrative are tagged',
+    target: 'timeline_entry',
+    defaultSeverity: 'warning',
+    phase: 'listening',
+    defaultOptions: {},
+    check: (entry, _i, _o, { tags }) => {
+      // Empty tags are entry/no-tags' job
+      if (!tags || !entry.tags.trim()) return [];
+      const index = buildTagIndex(tags);
+      const labels = splitTagString(entry.tags);
+      const tagged = new Set(labels.map((l) => resolveTag(l, index)?.id).filter(Boolean));
+      const missing = tagsMentionedIn(entry.narrative, tags).filter(
+        (t) => t.type === 'source' && !tagged.has(t.id)
+      );
+      if (missing.length === 0) return [];
+      const names = missing.map((t) => t.label);
+      return found(`Mentioned but not tagged: ${names.join(', ')}`, {
+        fixes: tagsFix(entry, `Add ${names.length === 1 ? `"${names[0]}"` : `${names.length} tags`}`, [...labels, ...names]),
+      });
+    },
+  },
+  {
+    id: 'entry/unmentioned-tag',
+    title: 'Tagged instruments appear in the narrative',
+    target: 'timeline_entry',
+    defaultSeverity: 'warning',
+    phase: 'listening',
+    defaultOptions: {},
+    check: (entry, _i, _o, { tags }) => {
+      if (!tags || !entry.narrative.trim()) return [];
+      const index = buildTagIndex(tags);
+      const labels = splitTagString(entry.tags);
+      return labels.flatMap((label) => {
+        const tag = resolveTag(label, index);
+        // Unknown tags are entry/unknown-tag's job; qualities and actions are often implied
+        if (!tag || !CONCRETE_TAG_TYPES.has(tag.type)) return [];
+        // A tag is implied when its label, an alias or its category ("Drums") is mentioned
+        if (findTagMention(entry.narrative, tag) !== -1 || mentionsTerm(entry.narrative, tag.category)) return [];
+        return found(`"${label}" is tagged but the narrative never mentions it — describe it or drop the tag`, {
+          fixes: tagsFix(entry, `Remove "${label}"`, labels.filter((l) => l !== label)),
+        });
+      });
+    },
+  },
+  // ── Global categories ──
+  {
+    id: 'global/required',
+    title: 'Required categories are filled in',
+    target: 'global_category',
+    defaultSeverity: 'error',
+    phase: 'global',
+    defaultOptions: {},
+    check: (value, cat) =>
+      !cat.canBeNA && !value.trim() ? found('Required global category is empty') : [],
+  },
+  {
+    id: 'global/referential-opener',
+    title: "No 'In this song' / 'This track' openers",
+    target: 'global_category',
+    defaultSeverity: 'warning',
+    phase: 'global',
+    defaultOptions: {},
+    spans: openerSpans,
+    check: (value, cat) =>
+      REFERENTIAL_OPENER.test(value)
+        ? found("Avoid referential openers ('In this song', 'This track')", {
+            fixes: openerFix(value, (v) => ({
+              target: 'global_category', key: cat.key, value: v,
+            })),
+          })
+        : [],
+  },
+  {
+    id: 'global/first-person',
+    title: 'No first-person narration',
+    target: 'global_category',
+    defaultSeverity: 'warning',
+    phase: 'global',
+    defaultOptions: {},
+    spans: (text) => findFirstPerson(text),
+    check: (value) => {
+      const spans = findFirstPerson(value);
+      return spans.length === 0
+        ? []
+        : found(`First-person ${quoteSpans(spans)} — describe what is heard, not the listener`);
+    },
+  },
+  {
+    id: 'global/past-tense',
+    title: 'Written in the present tense',
+    target: 'global_category',
+    defaultSeverity: 'warning',
+    phase: 'global',
+    defaultOptions: {},
+    spans: (text) => findPastTense(text),
+    check: (value) => {
+      const spans = findPastTense(value);
+      return spans.length === 0 ? [] : found(`Past tense ${quoteSpans(spans)} — use present tense`);
+    },
+  },
+  {
+    id: 'global/vague-adjective',
+    title: 'No vague adjectives',
+    target: 'global_category',
+    defaultSeverity: 'warning',
+    phase: 'global',
+    defaultOptions: { words: 'nice, cool, good' },
+    spans: (text, o) => vagueWordSpans(text, o.words),
+    check: (value, _cat, o) =>
+      wordListRegex(o.words)?.test(value)
+        ? found('Vague adjective detected — be more specific')
+        : [],
+  },
+  {
+    id: 'global/wow-min-words',
+    title: "Wow Factor is detailed enough",
+    target: 'global_category',
+    defaultSeverity: 'warning',
+    phase: 'global',
+    defaultOptions: { minWords: 15 },
+    check: (value, cat, o) =>
+      cat.key === 'wow' && value.trim() && wordCount(value) < Number(o.minWords)
+        ? found('Wow Factor seems brief — this is a critical field for TuneTag')
+        : [],
+  },
+];
+
+export function getLintRule(id: string): LintRule | undefined {
+  return LINT_RULES.find((r) => r.id === id);
+}
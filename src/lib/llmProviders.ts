@@ -0,0 +1,210 @@
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type LlmProviderId = 'anthropic' | 'openai' | 'openai_compatible';
+
+/** Which model answers polish requests. Not secret — persisted in localStorage. */
+export interface LlmSettings {
+  provider: LlmProviderId;
+  model: string;      // '' = the provider's default
+  baseUrl: string;    // only used by openai_compatible, e.g. http://localhost:11434/v1
+}
+
+export interface LlmRequest {
+  system: string;
+  user: string;
+  maxTokens: number;
+}
+
+/**
+ * Why a provider call failed, the same for every provider so callers can
+ * react (e.g. back off on 'rate_limited') without knowing the backend.
+ */
+export type PolishUnavailableReason =
+  | 'no_key'          // no API key entered for a provider that needs one
+  | 'invalid_key'     // 401 / 403
+  | 'rate_limited'    // 429
+  | 'network'         // fetch failed — offline, CORS, local server not running
+  | 'bad_request'     // 400 / 404 / 422 — usually an unknown model or wrong base URL
+  | 'server_error'    // 5xx
+  | 'bad_response';   // 2xx but no text where the provider puts it
+
+const REASON_MESSAGES: Record<PolishUnavailableReason, string> = {
+  no_key: 'No API key set',
+  invalid_key: 'Invalid API key',
+  rate_limited: 'Rate limited — try again in a moment',
+  network: 'Network error — check your connection',
+  bad_request: 'Request rejected — check the model name and endpoint',
+  server_error: 'The provider had a server error — try again shortly',
+  bad_response: 'Unexpected API response format',
+};
+
+export class PolishUnavailableError extends Error {
+  constructor(
+    public reason: PolishUnavailableReason,
+    public detail?: string,
+    public retryAfterSeconds?: number  // from Retry-After, when rate limited
+  ) {
+    super('Polish unavailable: ' + REASON_MESSAGES[reason] + (detail ? ` (${detail})` : ''));
+    this.name = 'PolishUnavailableError';
+  }
+}
+
+export interface LlmProvider {
+  id: LlmProviderId;
+  label: string;
+  defaultModel: string;
+  keyStorage: string;   // sessionStorage key holding this provider's API key
+  keyRequired: boolean; // local servers usually accept any key or none
+  /** `settings.model` is already resolved to the default when left blank. */
+  complete: (req: LlmRequest, settings: LlmSettings, apiKey: string) => Promise<string>;
+}
+
+// ─── HTTP ─────────────────────────────────────────────────────────────────────
+
+async function postJson(url: string, headers: Record<string, string>, body: unknown): Promise<unknown> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+    });
+  } catch {
+    throw new PolishUnavailableError('network', url);
+  }
+
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    const detail = `HTTP ${response.status}${text ? `: ${text.slice(0, 200)}` : ''}`;
+    if (response.status === 401 || response.status === 403) throw new PolishUnavailableError('invalid_key', detail);
+    if (response.status === 429) {
+      const retryAfter = Number(response.headers.get('retry-after'));
+      throw new PolishUnavailableError('rate_limited', detail, Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : undefined);
+    }
+    if (response.status >= 500) throw new PolishUnavailableError('server_error', detail);
+    throw new PolishUnavailableError('bad_request', detail);
+  }
+
+  try {
+    return await response.json();
+  } catch {
+    throw new PolishUnavailableError('bad_response', 'Body is not JSON');
+  }
+}
+
+function requireText(text: unknown): string {
+  if (typeof text !== 'string' || !text.trim()) throw new PolishUnavailableError('bad_response');
+  return text.trim();
+}
+
+// ─── Providers ────────────────────────────────────────────────────────────────
+
+/** OpenAI chat completions — also spoken by llama.cpp, Ollama, vLLM and LM Studio. */
+async function chatCompletions(baseUrl: string, model: string, req: LlmRequest, apiKey: string): Promise<string> {
+  const data = await postJson(
+    `${baseUrl.replace(/\/+$/, '')}/chat/completions`,
+    apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+    {
+      model,
+      max_tokens: req.maxTokens,
+      messages: [
+        { role: 'system', content: req.system },
+        { role: 'user', content: req.user },
+      ],
+    }
+  ) as { choices?: Array<{ message?: { content?: unknown } }> };
+  return requireText(data?.choices?.[0]?.message?.content);
+}
+
+export const LLM_PROVIDERS: Record<LlmProviderId, LlmProvider> = {
+  anthropic: {
+    id: 'anthropic',
+    label: 'Anthropic',
+    defaultModel: 'claude-sonnet-4-20250514',
+    keyStorage: 'anthropic_api_key',
+    keyRequired: true,
+    complete: async (req, settings, apiKey) => {
+      const data = await postJson(
+        'https://api.anthropic.com/v1/messages',
+        {
+          'x-api-key': apiKey,
+          'anthropic-version': '2023-06-01',
+          'anthropic-dangerous-direct-browser-access': 'true',
+        },
+        {
+          model: settings.model,
+          max_tokens: req.maxTokens,
+          system: req.system,
+          messages: [{ role: 'user', content: req.user }],
+        }
+      ) as { content?: Array<{ type?: string; text?: unknown }> };
+      const block = data?.content?.[0];
+      return requireText(block?.type === 'text' ? block.text : null);
+    },
+  },
+  openai: {
+    id: 'openai',
+    label: 'OpenAI',
+    defaultModel: 'gpt-4o-mini',
+    keyStorage: 'openai_api_key',  // shared with Whisper transcription
+    keyRequired: true,
+    complete: (req, settings, apiKey) =>
+      chatCompletions('https://api.openai.com/v1', settings.model, req, apiKey),
+  },
+  openai_compatible: {
+    id: 'openai_compatible',
+    label: 'OpenAI-compatible server',
+    defaultModel: 'llama3.1',
+    keyStorage: 'llm_compatible_api_key',
+    keyRequired: false,
+    complete: (req, settings, apiKey) =>
+      chatCompletions(settings.baseUrl || DEFAULT_COMPATIBLE_BASE_URL, settings.model, req, apiKey),
+  },
+};
+
+// ─── Settings ─────────────────────────────────────────────────────────────────
+
+const SETTINGS_KEY = 'tunetag_llm_settings';
+export const DEFAULT_COMPATIBLE_BASE_URL = 'http://localhost:11434/v1';
+
+export const DEFAULT_LLM_SETTINGS: LlmSettings = {
+  provider: 'anthropic',
+  model: '',
+  baseUrl: DEFAULT_COMPATIBLE_BASE_URL,
+};
+
+export function loadLlmSettings(): LlmSettings {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    if (!raw) return DEFAULT_LLM_SETTINGS;
+    const parsed = JSON.parse(raw) as Partial<LlmSettings>;
+    const provider = parsed.provider && parsed.provider in LLM_PROVIDERS ? parsed.provider : DEFAULT_LLM_SETTINGS.provider;
+    return { ...DEFAULT_LLM_SETTINGS, ...parsed, provider };
+  } catch {
+    return DEFAULT_LLM_SETTINGS;
+  }
+}
+
+export function saveLlmSettings(settings: LlmSettings): void {
+  try { localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings)); } catch { /* ignore */ }
+}
+
+export function getProviderKey(provider: LlmProvider): string {
+  try { return sessionStorage.getItem(provider.keyStorage) ?? ''; } catch { return ''; }
+}
+
+/** Provider id and the model requests will actually use (blank resolves to the default). */
+export function activeLlm(settings: LlmSettings = loadLlmSettings()): { provider: LlmProviderId; model: string } {
+  return { provider: settings.provider, model: settings.model.trim() || LLM_PROVIDERS[settings.provider].defaultModel };
+}
+
+/**
+ * Sends one request to the configured provider. Every failure surfaces as a
+ * PolishUnavailableError with a normalised reason.
+ */
+export async function llmComplete(req: LlmRequest, settings: LlmSettings = loadLlmSettings()): Promise<string> {
+  const provider = LLM_PROVIDERS[settings.provider];
+  const apiKey = getProviderKey(provider);
+  if (provider.keyRequired && !apiKey) throw new PolishUnavailableError('no_key', provider.label);
+  return provider.complete(req, { ...settings, model: settings.model.trim() || provider.defaultModel }, apiKey);
+}
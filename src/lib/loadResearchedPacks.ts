@@ -41,6 +41,9 @@ function adaptPack(raw: unknown): TagPackImport | null {
         : typeof t.category === 'string' && t.category.trim()
           ? t.category.trim()
           : 'Imported',
+      aliases: Array.isArray(t.aliases)
+        ? t.aliases.filter((a): a is string => typeof a === 'string' && a.trim().length > 0)
+        : [],
     }))
     .filter((t) => t.label.length > 0);
 
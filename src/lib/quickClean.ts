@@ -0,0 +1,84 @@
+import { stripReferentialOpener, rewriteFirstPerson } from './lintFixes';
+
+// ─── Word list ────────────────────────────────────────────────────────────────
+
+// Filler and superfluous adjectives the builtin style profile strips; profiles can edit it
+export const DEFAULT_QUICK_CLEAN_WORDS = [
+  'really', 'very', 'basically', 'actually', 'literally', 'kind of', 'sort of',
+  'pretty much', 'quite', 'nice', 'cool', 'good', 'awesome',
+];
+
+// Shown in the revision log in place of an LLM provider
+export const QUICK_CLEAN_PROVIDER = 'quick_clean';
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function stripWords(text: string, words: string[]): string {
+  const list = words.map((w) => w.trim()).filter(Boolean).sort((a, b) => b.length - a.length);
+  if (list.length === 0) return text;
+  // Longest first, so "kind of" goes before "kind". Only before another word —
+  // "a nice pad" loses "nice", "the drums are cool" keeps it — and a run of
+  // them goes at once so the article before it can agree with what's left.
+  // Commas inside a run go with it: "very, very loud" is "loud".
+  // Never after a negation: "not very loud" is not "not loud"
+  const alternatives = list.map(escapeRegex).join('|');
+  const notAfter = `(?<!(?:\\bnot|\\bnever|n['’]t|\\b(?:${alternatives}),?)\\s+(?:an?\\s+)?)`;
+  const run = `(?:(?:${alternatives})\\b(?:\\s*,\\s*(?=(?:${alternatives})\\b)|\\s+))+`;
+  const re = new RegExp(`${notAfter}\\b(?:(an?)\\s+)?${run}(?=([A-Za-z]))`, 'gi');
+  return text.replace(re, (_m, article: string | undefined, next: string) => {
+    if (!article) return '';
+    return `${article.charAt(0)}${/[aeiou]/i.test(next) ? 'n' : ''} `;
+  });
+}
+
+// ─── Tidy-up ──────────────────────────────────────────────────────────────────
+
+// A stop that ends a sentence, not one inside "e.g.", "i.e." or "U.S."
+const SENTENCE_STOP = '(?<!(?:^|[\\s.])[A-Za-z])[.!?]';
+
+function tidyPunctuation(text: string): string {
+  return text
+    .replace(/\s+/g, ' ')
+    .replace(/\s+([,.;:!?])/g, '$1')        // no space before punctuation
+    .replace(/([,;:])(?:\s*[,;:])+/g, '$1') // ", ," left by a removed word
+    .replace(/([,;:])(?=[.!?])/g, '')      // "bass,." → "bass."
+    .replace(/([,;:])(?=[A-Za-z])/g, '$1 ')
+    .replace(new RegExp(`(${SENTENCE_STOP})(?=[A-Z])`, 'g'), '$1 ')
+    .replace(/^[\s,;:]+/, '')
+    .trim();
+}
+
+function capitalizeSentences(text: string): string {
+  return text
+    .replace(/\bi\b(?=\s|'|$)/g, 'I')
+    .replace(new RegExp(`(^|${SENTENCE_STOP}\\s+)([a-z])`, 'g'), (_m, lead: string, c: string) => lead + c.toUpperCase());
+}
+
+function endSentence(text: string): string {
+  return /[A-Za-z0-9)"']$/.test(text) ? `${text}.` : text;
+}
+
+// ─── Rewrite ──────────────────────────────────────────────────────────────────
+
+/**
+ * Offline, rule-based clean-up of rough notes: drops first-person framing
+ * ("I hear a pad" → "A pad") and referential openers, strips the listed
+ * filler words, then fixes spacing, capitals and the full stop.
+ * Never adds words of its own, and leaves filler after a negation alone.
+ */
+export function quickClean(text: string, words: string[] = DEFAULT_QUICK_CLEAN_WORDS): string {
+  const trimmed = text.trim();
+  if (/^(n\/a|skipped)$/i.test(trimmed)) return trimmed;
+  let out = capitalizeSentences(trimmed)
+    .split(new RegExp(`(?<=${SENTENCE_STOP})\\s+`))
+    .map((sentence) => {
+      const framed = rewriteFirstPerson(sentence) ?? sentence;
+      return stripReferentialOpener(framed) ?? framed;
+    })
+    .join(' ');
+  out = tidyPunctuation(stripWords(out, words));
+  out = capitalizeSentences(out);
+  return out ? endSentence(out) : out;
+}
@@ -0,0 +1,193 @@
+import type { TrackAnnotation, TimelineEntry, GlobalAnalysis, FieldRevision, RevisionKind } from '../types';
+import { GLOBAL_CATEGORIES } from './schema';
+import { activeLlm } from './llmProviders';
+import { wordDiff } from './batchPolish';
+import { QUICK_CLEAN_PROVIDER } from './quickClean';
+
+// ─── Field ids ────────────────────────────────────────────────────────────────
+// Same ids as PolishJob: a timeline entry's id, or "global:<key>".
+
+export function globalFieldId(key: keyof GlobalAnalysis): string {
+  return `global:${key}`;
+}
+
+function fieldText(annotation: TrackAnnotation, fieldId: string): { text: string; polished: boolean; dictated: boolean; raw: string } | null {
+  if (fieldId.startsWith('global:')) {
+    const key = fieldId.slice('global:'.length) as keyof GlobalAnalysis;
+    const text = annotation.global[key] ?? '';
+    return { text, polished: annotation.polishedGlobal?.includes(key) ?? false, dictated: false, raw: text };
+  }
+  const entry = annotation.timeline.find((e) => e.id === fieldId);
+  if (!entry) return null;
+  return { text: entry.narrative, polished: entry.wasPolished, dictated: entry.isDictated ?? false, raw: entry.narrativeRaw };
+}
+
+// ─── History ──────────────────────────────────────────────────────────────────
+
+// Steps that set the field's text; proposals and rejections leave it as it was
+const TEXT_KINDS: RevisionKind[] = ['dictation', 'typed', 'manual_edit', 'polish_accepted', 'draft_accepted'];
+
+/**
+ * A field's logged history. Fields from before the log existed get one
+ * reconstructed from `narrativeRaw` / `wasPolished` / `polishedGlobal`.
+ */
+export function fieldHistory(annotation: TrackAnnotation, fieldId: string): FieldRevision[] {
+  const logged = annotation.revisionLog?.[fieldId];
+  if (logged) return logged;
+  const field = fieldText(annotation, fieldId);
+  if (!field || !field.text.trim()) return [];
+  if (fieldId.startsWith('global:')) {
+    // The pre-polish text of a global field was never kept
+    return [{ kind: field.polished ? 'polish_accepted' : 'typed', at: 0, text: field.text }];
+  }
+  const origin: FieldRevision = { kind: field.dictated ? 'dictation' : 'typed', at: 0, text: field.raw || field.text };
+  return field.polished && field.text !== origin.text
+    ? [origin, { kind: 'polish_accepted', at: 0, text: field.text }]
+    : [origin];
+}
+
+/** The log without histories of timeline entries that are no longer on the timeline. */
+export function pruneRevisionLog(
+  log: TrackAnnotation['revisionLog'],
+  timeline: TimelineEntry[]
+): TrackAnnotation['revisionLog'] {
+  if (!log) return log;
+  const ids = new Set(timeline.map((e) => e.id));
+  const pruned = { ...log };
+  for (const fieldId of Object.keys(pruned)) {
+    if (!fieldId.startsWith('global:') && !ids.has(fieldId)) delete pruned[fieldId];
+  }
+  return pruned;
+}
+
+/** The field's text as of its last logged step, or null if nothing is logged. */
+export function lastLoggedText(history: FieldRevision[]): string | null {
+  for (let i = history.length - 1; i >= 0; i--) {
+    if (TEXT_KINDS.includes(history[i].kind)) return history[i].text;
+  }
+  return null;
+}
+
+/**
+ * The step that records the annotator's current text: their first text
+ * (`origin`) when nothing is logged yet, a manual edit when it changed,
+ * null when it hasn't.
+ */
+export function humanRevision(
+  history: FieldRevision[],
+  text: string,
+  origin: 'typed' | 'dictation' = 'typed'
+): FieldRevision | null {
+  const last = lastLoggedText(history);
+  if (last === null) return text.trim() ? { kind: origin, at: Date.now(), text } : null;
+  return last === text ? null : { kind: 'manual_edit', at: Date.now(), text };
+}
+
+// FNV-1a, 32-bit — a stable id for a prompt, not a security hash
+export function hashPrompt(prompt: string): string {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < prompt.length; i++) {
+    h ^= prompt.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, '0');
+}
+
+/** Provider, model and prompt hash for an AI step, from the current LLM settings. */
+export function aiSource(systemPrompt?: string): Pick<FieldRevision, 'provider' | 'model' | 'promptHash'> {
+  return { ...activeLlm(), ...(systemPrompt ? { promptHash: hashPrompt(systemPrompt) } : {}) };
+}
+
+// ─── Human share ──────────────────────────────────────────────────────────────
+
+export interface AuthorshipCounts {
+  humanWords: number;
+  aiWords: number;
+}
+
+type Author = 'human' | 'ai';
+
+/** Carries each word's author across a text change; new words get `author`. */
+function reattribute(before: string, authors: Author[], after: string, author: Author): Author[] {
+  const out: Author[] = [];
+  let i = 0;
+  for (const part of wordDiff(before, after)) {
+    const n = (part.text.match(/\S+/g) ?? []).length;
+    if (part.kind === 'same') out.push(...authors.slice(i, i + n));
+    if (part.kind === 'added') out.push(...new Array<Author>(n).fill(author));
+    if (part.kind !== 'added') i += n;
+  }
+  return out;
+}
+
+/**
+ * Who wrote each word of `finalText`, replaying the history: human steps add
+ * human words, accepted polish and drafts add AI words, and edits made to a
+ * suggestion before accepting it count as human. Quick clean only trims and
+ * re-punctuates the annotator's own words, so what it changes stays human.
+ */
+export function fieldAuthorship(history: FieldRevision[], finalText: string): AuthorshipCounts {
+  let text = '';
+  let authors: Author[] = [];
+  let proposal: FieldRevision | null = null;
+
+  for (const rev of history) {
+    if (rev.kind === 'polish_proposed') { proposal = rev; continue; }
+    if (rev.kind === 'polish_rejected') { proposal = null; continue; }
+    if (rev.kind === 'polish_accepted' || rev.kind === 'draft_accepted') {
+      const fromProposal = rev.kind === 'polish_accepted' && proposal !== null;
+      const suggested = fromProposal ? proposal!.text : rev.text;
+      const author: Author = fromProposal && proposal!.provider === QUICK_CLEAN_PROVIDER ? 'human' : 'ai';
+      authors = reattribute(text, authors, suggested, author);
+      authors = reattribute(suggested, authors, rev.text, 'human');
+      proposal = null;
+    } else {
+      authors = reattribute(text, authors, rev.text, 'human');
+    }
+    text = rev.text;
+  }
+  // Changes since the last logged step (lint fixes, undo) count as the annotator's
+  authors = reattribute(text, authors, finalText, 'human');
+
+  const aiWords = authors.filter((a) => a === 'ai').length;
+  return { humanWords: authors.length - aiWords, aiWords };
+}
+
+function isCountable(text: string): boolean {
+  const t = text.trim().toUpperCase();
+  return t !== '' && t !== 'N/A' && t !== 'SKIPPED';
+}
+
+/** Word authorship over every narrative and global category on the track. */
+export function annotationAuthorship(annotation: TrackAnnotation): AuthorshipCounts {
+  const fields = [
+    ...annotation.timeline.map((e) => ({ id: e.id, text: e.narrative })),
+    ...GLOBAL_CATEGORIES.map((c) => ({ id: globalFieldId(c.key), text: annotation.global[c.key] ?? '' })),
+  ];
+  const totals: AuthorshipCounts = { humanWords: 0, aiWords: 0 };
+  for (const field of fields) {
+    if (!isCountable(field.text)) continue;
+    const counts = fieldAuthorship(fieldHistory(annotation, field.id), field.text);
+    totals.humanWords += counts.humanWords;
+    totals.aiWords += counts.aiWords;
+  }
+  return totals;
+}
+
+/** Share of the final words the annotator wrote, 0–1; null when there is no text. */
+export function humanEditRatio({ humanWords, aiWords }: AuthorshipCounts): number | null {
+  const total = humanWords + aiWords;
+  return total > 0 ? Math.round((humanWords / total) * 1000) / 1000 : null;
+}
+
+// ─── Display ──────────────────────────────────────────────────────────────────
+
+export const REVISION_KIND_LABELS: Record<RevisionKind, string> = {
+  dictation: 'Dictated',
+  typed: 'Typed',
+  manual_edit: 'Edited',
+  polish_proposed: 'Clean-up suggested',
+  polish_accepted: 'Clean-up accepted',
+  polish_rejected: 'Clean-up rejected',
+  draft_accepted: 'Draft used',
+};
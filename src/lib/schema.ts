@@ -1,4 +1,4 @@
-import type { Track, CategoryDef } from '../types';
+import type { Track, CategoryDef, StyleRule } from '../types';
 import { loadCustomTracks } from './trackResolver';
 
 // Source: B1 of each Track sheet. A future parser would extract these.
@@ -220,12 +220,13 @@ export const GLOBAL_CATEGORIES: CategoryDef[] = [
   },
 ];
 
-export const STYLE_RULES = [
+export const STYLE_RULES: StyleRule[] = [
   {
     num: 1,
     title: 'TIME IS PRECIOUS',
     body: 'Do not spend more than 30 minutes on a track. 20 minutes is the sweet spot.',
     defaultExpanded: false,
+    lintOptions: { 'track/session-length': { maxSeconds: 1800 } },
   },
   {
     num: 2,
@@ -238,12 +239,21 @@ export const STYLE_RULES = [
     title: 'AVOID VERBOSITY',
     body: 'Include all key information but keep sentences concise. Avoid superfluous adjectives.',
     defaultExpanded: false,
+    polish: [
+      'Every word earns its place — remove filler and superfluous adjectives',
+      '1-3 sentences maximum',
+    ],
   },
   {
     num: 4,
     title: 'GROUNDED SUBJECTIVITY',
     body: "Be specific. Instead of 'It sounds nice', say 'Warm mix with smooth vocals'.",
     defaultExpanded: false,
+    lintOptions: {
+      'entry/vague-adjective': { words: 'nice, cool, good' },
+      'global/vague-adjective': { words: 'nice, cool, good' },
+    },
+    polish: ['Specific over vague — "warm lo-fi piano" not "nice piano"'],
   },
   {
     num: 5,
@@ -268,18 +278,26 @@ export const STYLE_RULES = [
     title: 'CONVERSATIONAL',
     body: "No need for exact BPM or chord names. Cues like 'jazzy chords' or 'slow tempo' are fine.",
     defaultExpanded: false,
+    polish: ['Use conversational cues: "jazzy chords", "descending melody"'],
   },
   {
     num: 9,
     title: 'CONSISTENT STYLE',
     body: "Use present tense. No first-person. No 'In this song'. Matter-of-fact but emotions are welcome.",
     defaultExpanded: true,
+    polish: [
+      'Present tense only — never past tense',
+      'No first person — never I, my, me, we',
+      'No referential openers — never "In this song", "This track", "The song opens"',
+      'Matter-of-fact tone — emotions fine if concrete: "haunting", "triumphant"',
+    ],
   },
   {
     num: 10,
     title: 'CONTEXT & RELATIONSHIP',
     body: "Use Who/What/Where/When: 'The singer (who) screams (what) and takes center stage (where) during the chorus (when)'.",
     defaultExpanded: true,
+    polish: ['Apply Who/What/Where/When when describing performers'],
   },
 ];
 
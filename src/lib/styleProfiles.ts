@@ -0,0 +1,179 @@
+import type { StyleProfile, StyleRule, LintConfig, LintOptionValue } from '../types';
+import { STYLE_RULES } from './schema';
+import { DEFAULT_QUICK_CLEAN_WORDS } from './quickClean';
+
+// ─── Builtin profile ──────────────────────────────────────────────────────────
+
+export const DEFAULT_STYLE_PROFILE_ID = 'tunetag';
+
+const POLISH_PROMPT_INTRO = `You are a copy editor for music annotation data being used to train AI models.
+Your job is to lightly rewrite rough listening notes into clean annotation text.`;
+
+// Always the last rule — polishText uses the reply verbatim
+const POLISH_PROMPT_OUTPUT_RULE = 'Return ONLY the rewritten text — no explanation, no preamble, no quotes';
+
+export const BUILTIN_STYLE_PROFILES: StyleProfile[] = [
+  {
+    id: DEFAULT_STYLE_PROFILE_ID,
+    name: 'TuneTag default',
+    source: 'builtin',
+    rules: STYLE_RULES,
+    quickCleanWords: DEFAULT_QUICK_CLEAN_WORDS,
+  },
+];
+
+// ─── Lookup ───────────────────────────────────────────────────────────────────
+
+/** The profile with this id, else the builtin default. */
+export function getStyleProfile(profiles: StyleProfile[], id: string): StyleProfile {
+  return profiles.find((p) => p.id === id) ?? BUILTIN_STYLE_PROFILES[0];
+}
+
+// Profiles saved before instructions lived on rules kept them in one list;
+// it goes on the first rule so the prompt they produce is unchanged
+function attachLegacyInstructions(rules: StyleRule[], legacy: unknown): StyleRule[] {
+  if (!Array.isArray(legacy) || rules.length === 0 || rules.some((r) => r.polish?.length)) return rules;
+  const polish = legacy.filter((x): x is string => typeof x === 'string' && x.trim() !== '').map((x) => x.trim());
+  return polish.length > 0 ? [{ ...rules[0], polish }, ...rules.slice(1)] : rules;
+}
+
+/** Current builtins plus the saved custom profiles. */
+export function mergeStyleProfilesWithSaved(saved?: StyleProfile[]): StyleProfile[] {
+  const builtinIds = new Set(BUILTIN_STYLE_PROFILES.map((p) => p.id));
+  const custom = (saved ?? [])
+    .filter((p) => p.source === 'custom' && !builtinIds.has(p.id))
+    .map((p) => {
+      const migrated = { ...p, rules: attachLegacyInstructions(p.rules, (p as { polishInstructions?: unknown }).polishInstructions) };
+      delete (migrated as { polishInstructions?: unknown }).polishInstructions;
+      return migrated;
+    });
+  return [...BUILTIN_STYLE_PROFILES, ...custom];
+}
+
+// ─── Derived prompt and lint options ──────────────────────────────────────────
+
+/** The clean-up instructions the profile's rules contribute, in rule order. */
+export function polishInstructions(profile: StyleProfile): string[] {
+  return profile.rules.flatMap((r) => r.polish ?? []).map((x) => x.trim()).filter(Boolean);
+}
+
+/** The polish system prompt: fixed intro, the rules' instructions numbered, then the output rule. */
+export function buildPolishSystemPrompt(profile: StyleProfile): string {
+  const rules = [...polishInstructions(profile), POLISH_PROMPT_OUTPUT_RULE];
+  return `${POLISH_PROMPT_INTRO}
+
+Apply these rules without exception:
+${rules.map((r, i) => `${i + 1}. ${r}`).join('\n')}`;
+}
+
+/** Words the offline Quick clean strips under this profile. */
+export function quickCleanWords(profile: StyleProfile): string[] {
+  return profile.quickCleanWords ?? DEFAULT_QUICK_CLEAN_WORDS;
+}
+
+/** Every lint threshold the profile's rules set, merged per lint rule id. */
+export function profileLintOptions(profile: StyleProfile): Record<string, Record<string, LintOptionValue>> {
+  const out: Record<string, Record<string, LintOptionValue>> = {};
+  for (const rule of profile.rules) {
+    for (const [ruleId, options] of Object.entries(rule.lintOptions ?? {})) {
+      out[ruleId] = { ...(out[ruleId] ?? {}), ...options };
+    }
+  }
+  return out;
+}
+
+/** The project's lint config with the profile's thresholds layered beneath its overrides. */
+export function withStyleProfile(config: LintConfig, profile: StyleProfile): LintConfig {
+  return { ...config, profileOptions: profileLintOptions(profile) };
+}
+
+// ─── JSON import / export ─────────────────────────────────────────────────────
+
+const EXPORT_FORMAT = 'tunetag-style-profile';
+
+export function styleProfileToJson(profile: StyleProfile): string {
+  return JSON.stringify(
+    {
+      format: EXPORT_FORMAT,
+      version: 1,
+      name: profile.name,
+      rules: profile.rules,
+      quickCleanWords: quickCleanWords(profile),
+    },
+    null,
+    2
+  );
+}
+
+export interface StyleProfileParseResult {
+  ok: boolean;
+  data: Omit<StyleProfile, 'id' | 'source'> | null;
+  errors: string[];
+}
+
+function parseLintOptions(raw: unknown): StyleRule['lintOptions'] {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) return undefined;
+  const out: NonNullable<StyleRule['lintOptions']> = {};
+  for (const [ruleId, options] of Object.entries(raw)) {
+    if (typeof options !== 'object' || options === null || Array.isArray(options)) continue;
+    const values = Object.entries(options).filter(
+      ([, v]) => typeof v === 'number' || typeof v === 'string' || typeof v === 'boolean'
+    ) as [string, LintOptionValue][];
+    if (values.length > 0) out[ruleId] = Object.fromEntries(values);
+  }
+  return Object.keys(out).length > 0 ? out : undefined;
+}
+
+/**
+ * Parses an exported style profile. Rules without a title or body are skipped
+ * with a warning; rules are renumbered in file order. Does not throw.
+ */
+export function parseStyleProfileJson(raw: string): StyleProfileParseResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw.trim());
+  } catch {
+    return { ok: false, data: null, errors: ['Invalid JSON — could not parse.'] };
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    return { ok: false, data: null, errors: ['Expected a JSON object at the top level.'] };
+  }
+
+  const obj = parsed as Record<string, unknown>;
+  const errors: string[] = [];
+  if (typeof obj.name !== 'string' || !obj.name.trim()) errors.push('Missing or empty "name" field.');
+  if (!Array.isArray(obj.rules)) errors.push('"rules" must be an array.');
+  if (errors.length > 0) return { ok: false, data: null, errors };
+
+  const rules: StyleRule[] = [];
+  (obj.rules as unknown[]).forEach((row, i) => {
+    const r = (typeof row === 'object' && row !== null ? row : {}) as Record<string, unknown>;
+    if (typeof r.title !== 'string' || !r.title.trim() || typeof r.body !== 'string' || !r.body.trim()) {
+      errors.push(`Rule ${i + 1}: missing "title" or "body" — skipped.`);
+      return;
+    }
+    rules.push({
+      num: rules.length + 1,
+      title: r.title.trim(),
+      body: r.body.trim(),
+      defaultExpanded: r.defaultExpanded === true,
+      lintOptions: parseLintOptions(r.lintOptions),
+      polish: Array.isArray(r.polish)
+        ? (r.polish as unknown[]).filter((x): x is string => typeof x === 'string' && x.trim() !== '').map((x) => x.trim())
+        : undefined,
+    });
+  });
+
+  // Optional — files exported before Quick clean existed don't have it
+  const quickClean = Array.isArray(obj.quickCleanWords)
+    ? (obj.quickCleanWords as unknown[]).filter((x): x is string => typeof x === 'string' && x.trim() !== '').map((x) => x.trim())
+    : undefined;
+
+  if (rules.length === 0) return { ok: false, data: null, errors: [...errors, 'No valid rules found.'] };
+  return {
+    ok: true,
+    // Files exported before instructions moved onto rules have a top-level list
+    data: { name: (obj.name as string).trim(), rules: attachLegacyInstructions(rules, obj.polishInstructions), ...(quickClean ? { quickCleanWords: quickClean } : {}) },
+    errors,
+  };
+}
@@ -76,6 +76,9 @@ export function parseTagPackJson(raw: string): ImportParseResult {
       category: typeof r.category === 'string' && r.category.trim()
         ? r.category.trim()
         : 'Imported',
+      ...(Array.isArray(r.aliases)
+        ? { aliases: r.aliases.filter((a): a is string => typeof a === 'string' && a.trim().length > 0) }
+        : {}),
     });
   }
 
@@ -96,10 +99,11 @@ export function parseTagPackJson(raw: string): ImportParseResult {
  */
 export const AI_IMPORT_PROMPT = `Generate a JSON tag pack for music annotation. Output valid JSON only (no markdown).
 Use this schema:
-{ "packId": "string", "label": "string", "version": 1, "tags": [{ "label": "string", "type": "section|source|action|quality|mix|genre_marker|timing|custom", "category": "string" }] }
+{ "packId": "string", "label": "string", "version": 1, "tags": [{ "label": "string", "type": "section|source|action|quality|mix|genre_marker|timing|custom", "category": "string", "aliases": ["string"] }] }
 Requirements:
 - 30–80 tags
 - practical for listening notes, arrangement, performance, and mix annotation
 - avoid duplicates and near-duplicates
 - short labels (1–3 words)
+- "aliases" lists common alternative names or abbreviations (may be empty)
 - include common genre-specific terms and mix descriptors`;
@@ -99,6 +99,31 @@ export function tagIdsToString(tagIds: string[], allTags: TagDef[]): string {
     .join(', ');
 }
 
+/**
+ * Inverse of tagIdsToString: resolves a comma-separated tag string back to
+ * library tag IDs by normalized label. Labels with no match are returned
+ * separately (free-typed tags are allowed in TimelineEntry.tags).
+ */
+export function stringToTagIds(
+  tags: string,
+  allTags: TagDef[]
+): { tagIds: string[]; unresolved: string[] } {
+  const byLabel = new Map(allTags.map((t) => [t.normalized, t.id]));
+  const tagIds: string[] = [];
+  const unresolved: string[] = [];
+  for (const raw of tags.split(',')) {
+    const label = raw.trim();
+    if (!label) continue;
+    const id = byLabel.get(normalizeLabel(label));
+    if (id) {
+      if (!tagIds.includes(id)) tagIds.push(id);
+    } else {
+      unresolved.push(label);
+    }
+  }
+  return { tagIds, unresolved };
+}
+
 /**
  * Normalizes a label string for deduplication comparison.
  */
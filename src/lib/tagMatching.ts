@@ -0,0 +1,110 @@
+import type { TagDef } from '../types';
+import { normalizeLabel } from './tagLibrary';
+
+// ─── Normalisation ────────────────────────────────────────────────────────────
+
+/** Label comparison key: normalized, with hyphens and runs of spaces folded ("Hi-Hat" → "hi hat"). */
+export function matchKey(label: string): string {
+  return normalizeLabel(label).replace(/[-_]+/g, ' ').replace(/\s+/g, ' ');
+}
+
+/** Every key a tag answers to: its label plus any pack aliases. */
+export function tagKeys(tag: TagDef): string[] {
+  return [tag.normalized, ...(tag.aliases ?? [])].map(matchKey).filter(Boolean);
+}
+
+// ─── Tag strings ──────────────────────────────────────────────────────────────
+
+/** Splits a TimelineEntry.tags string into trimmed, non-empty labels. */
+export function splitTagString(tags: string): string[] {
+  return tags.split(',').map((t) => t.trim()).filter(Boolean);
+}
+
+export function joinTagLabels(labels: string[]): string {
+  return labels.join(', ');
+}
+
+// ─── Lookup ───────────────────────────────────────────────────────────────────
+
+export type TagIndex = Map<string, TagDef>;
+
+/** Maps every label and alias key to its tag. Earlier tags win on collisions. */
+export function buildTagIndex(tags: TagDef[]): TagIndex {
+  const index: TagIndex = new Map();
+  for (const tag of tags) {
+    for (const key of tagKeys(tag)) {
+      if (!index.has(key)) index.set(key, tag);
+    }
+  }
+  return index;
+}
+
+/** Resolves a typed label to a tag by label or alias, tolerating a plural "s". */
+export function resolveTag(label: string, index: TagIndex): TagDef | null {
+  const key = matchKey(label);
+  return index.get(key) ?? (key.endsWith('s') ? index.get(key.slice(0, -1)) : undefined) ?? null;
+}
+
+function editDistance(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i];
+    for (let j = 1; j <= b.length; j++) {
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = cur;
+  }
+  return prev[b.length];
+}
+
+/**
+ * The closest known tag to an unrecognised label — a likely typo fix.
+ * Allows one edit for short labels and two for longer ones; null if nothing is that close.
+ */
+export function suggestTag(label: string, index: TagIndex): TagDef | null {
+  const key = matchKey(label);
+  const maxDistance = key.length <= 5 ? 1 : 2;
+  let best: { tag: TagDef; distance: number } | null = null;
+  for (const [candidate, tag] of index) {
+    if (Math.abs(candidate.length - key.length) > maxDistance) continue;
+    const distance = editDistance(key, candidate);
+    if (distance <= maxDistance && (!best || distance < best.distance)) best = { tag, distance };
+  }
+  return best?.tag ?? null;
+}
+
+// ─── Text mentions ────────────────────────────────────────────────────────────
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Offset of the first whole-word mention of a term in the text, singular or plural; -1 if none. */
+function termOffset(text: string, term: string): number {
+  const key = matchKey(term);
+  if (!key) return -1;
+  const stem = key.length > 3 && key.endsWith('s') ? key.slice(0, -1) : key;
+  return new RegExp(`\\b${escapeRegex(stem)}s?\\b`).exec(matchKey(text))?.index ?? -1;
+}
+
+export function mentionsTerm(text: string, term: string): boolean {
+  return termOffset(text, term) !== -1;
+}
+
+/** Character offset of the first mention of the tag's label or an alias in the text, or -1. */
+export function findTagMention(text: string, tag: TagDef): number {
+  const offsets = tagKeys(tag).map((key) => termOffset(text, key)).filter((at) => at !== -1);
+  return offsets.length > 0 ? Math.min(...offsets) : -1;
+}
+
+/**
+ * Tags whose label or alias appears as a whole word or phrase in the text,
+ * in the order they're mentioned.
+ */
+export function tagsMentionedIn(text: string, tags: TagDef[]): TagDef[] {
+  return tags
+    .map((tag) => ({ tag, at: findTagMention(text, tag) }))
+    .filter((x) => x.at !== -1)
+    .sort((a, b) => a.at - b.at)
+    .map((x) => x.tag);
+}
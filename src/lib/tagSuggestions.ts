@@ -0,0 +1,97 @@
+import type { TagDef } from '../types';
+import { llmComplete, PolishUnavailableError } from './llmProviders';
+import { tagsMentionedIn } from './tagMatching';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface TagSuggestionRequest {
+  narrative: string;
+  sectionType: string;
+  tags: TagDef[];            // the track's session tags (getSessionTags) — the only valid answers
+  excludeIds?: string[];     // already selected; never suggested again
+}
+
+export interface TagSuggestionResult {
+  tags: TagDef[];
+  source: 'ai' | 'offline';
+  notice?: string;           // why the offline matcher was used instead
+}
+
+const MAX_SUGGESTIONS = 8;
+
+// ─── Offline ──────────────────────────────────────────────────────────────────
+
+/** Tags whose label or alias the narrative mentions, in mention order. */
+export function suggestTagsOffline({ narrative, tags, excludeIds = [] }: TagSuggestionRequest): TagDef[] {
+  const exclude = new Set(excludeIds);
+  return tagsMentionedIn(narrative, tags.filter((t) => !exclude.has(t.id))).slice(0, MAX_SUGGESTIONS);
+}
+
+// ─── LLM ──────────────────────────────────────────────────────────────────────
+
+const SYSTEM_PROMPT = `You tag sections of music annotations for an AI training dataset.
+Given a section's description and a tag library, pick the tags the description supports.
+Rules:
+1. Only use ids from the library — never invent tags
+2. Pick tags the description states or clearly implies; skip anything speculative
+3. At most ${MAX_SUGGESTIONS} tags
+4. Reply with ONLY a JSON array of tag ids, e.g. ["tag_a","tag_b"] — [] if nothing fits`;
+
+/**
+ * Pulls tag ids out of the model's reply and keeps only ones in the library.
+ * Tolerates code fences and prose around the array; throws bad_response if
+ * there is no array at all.
+ */
+export function parseTagSuggestionReply(reply: string, tags: TagDef[]): TagDef[] {
+  const match = reply.match(/\[[\s\S]*?\]/);
+  let ids: unknown;
+  try {
+    ids = match ? JSON.parse(match[0]) : null;
+  } catch {
+    ids = null;
+  }
+  if (!Array.isArray(ids)) throw new PolishUnavailableError('bad_response', 'expected a JSON array of tag ids');
+
+  const byId = new Map(tags.map((t) => [t.id, t]));
+  const seen = new Set<string>();
+  const out: TagDef[] = [];
+  for (const id of ids) {
+    const tag = typeof id === 'string' ? byId.get(id.trim()) : undefined;
+    if (!tag || seen.has(tag.id)) continue;
+    seen.add(tag.id);
+    out.push(tag);
+  }
+  return out.slice(0, MAX_SUGGESTIONS);
+}
+
+export async function suggestTagsWithLlm({ narrative, sectionType, tags, excludeIds = [] }: TagSuggestionRequest): Promise<TagDef[]> {
+  const exclude = new Set(excludeIds);
+  const candidates = tags.filter((t) => !exclude.has(t.id));
+  if (candidates.length === 0) return [];
+  const library = candidates.map((t) => `${t.id}: ${t.label} (${t.category})`).join('\n');
+  const reply = await llmComplete({
+    system: SYSTEM_PROMPT,
+    user: `Section type: ${sectionType || 'unknown'}
+Description: ${narrative}
+
+Tag library (id: label (category)):
+${library}`,
+    maxTokens: 300,
+  });
+  return parseTagSuggestionReply(reply, candidates);
+}
+
+/**
+ * Tag suggestions for a section: asks the configured LLM, falling back to
+ * the offline label/alias matcher when no provider is usable.
+ */
+export async function suggestTags(req: TagSuggestionRequest): Promise<TagSuggestionResult> {
+  try {
+    return { tags: await suggestTagsWithLlm(req), source: 'ai' };
+  } catch (e) {
+    const notice = e instanceof PolishUnavailableError && e.reason === 'no_key'
+      ? 'No AI provider key — matched tags mentioned in your notes instead'
+      : 'AI suggestions unavailable — matched tags mentioned in your notes instead';
+    return { tags: suggestTagsOffline(req), source: 'offline', notice };
+  }
+}
@@ -0,0 +1,99 @@
+import ExcelJS from 'exceljs';
+import type { Track, TemplateProfile, TemplateIssue } from '../types';
+import { GLOBAL_CATEGORIES } from './schema';
+import { TIMELINE_COLUMN_FIELDS, globalLabelCell } from './templateProfiles';
+import { cellText } from './excelImport';
+import type { WorkbookInput } from './excelExportCore';
+
+// ─── Template inspector ───────────────────────────────────────────────────────
+// Runs when App loads the template. The exporter writes by address, so a
+// swapped-in workbook with a different layout would be filled silently —
+// this compares the workbook against the profile before anything is written.
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toUpperCase();
+}
+
+function inspectSheet(ws: ExcelJS.Worksheet, profile: TemplateProfile): TemplateIssue[] {
+  const issues: TemplateIssue[] = [];
+
+  // Part 1 header row
+  for (const field of TIMELINE_COLUMN_FIELDS) {
+    const cell = `${profile.timeline.columns[field]}${profile.timeline.headerRow}`;
+    const expected = profile.timeline.headers[field];
+    const found = cellText(ws.getCell(cell));
+    if (!normalize(found).startsWith(normalize(expected))) {
+      issues.push({
+        kind: 'header_mismatch',
+        sheet: ws.name,
+        cell,
+        expected,
+        found,
+        message: `Timeline header ${cell} should start with "${expected}"`,
+      });
+    }
+  }
+
+  // Part 2 category labels
+  for (const cat of GLOBAL_CATEGORIES) {
+    const cell = globalLabelCell(profile, cat.key);
+    const found = cellText(ws.getCell(cell));
+    if (normalize(found) !== normalize(cat.excelLabel)) {
+      issues.push({
+        kind: 'label_mismatch',
+        sheet: ws.name,
+        cell,
+        expected: cat.excelLabel,
+        found,
+        message: `${cell} should be "${cat.excelLabel}" — ${cat.displayLabel} would be written to the wrong row`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Compares a template workbook with a profile for the given tracks.
+ * Returns an empty list when the template matches.
+ */
+export async function inspectTemplate(
+  template: WorkbookInput,
+  tracks: Track[],
+  profile: TemplateProfile
+): Promise<TemplateIssue[]> {
+  const wb = new ExcelJS.Workbook();
+  await wb.xlsx.load(template as ExcelJS.Buffer);
+
+  const issues: TemplateIssue[] = [];
+  const master = wb.getWorksheet(profile.masterSheet);
+  if (!master) {
+    issues.push({
+      kind: 'missing_sheet',
+      sheet: profile.masterSheet,
+      message: `Master sheet "${profile.masterSheet}" not found — custom tracks cannot be added`,
+    });
+  }
+
+  const inspected = new Set<string>();
+  for (const track of tracks) {
+    const ws = wb.getWorksheet(track.sheetName);
+    if (!ws) {
+      issues.push({
+        kind: 'missing_sheet',
+        sheet: track.sheetName,
+        message: master
+          ? `No sheet for track ${track.id} — it will be created from "${profile.masterSheet}"`
+          : `No sheet for track ${track.id} — it cannot be exported`,
+      });
+      continue;
+    }
+    inspected.add(ws.name);
+    issues.push(...inspectSheet(ws, profile));
+  }
+
+  // Missing track sheets are cloned from the master, so its layout matters too
+  if (master && !inspected.has(master.name)) issues.push(...inspectSheet(master, profile));
+
+  return issues;
+}
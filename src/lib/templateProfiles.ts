@@ -0,0 +1,104 @@
+import type { TemplateProfile, TimelineColumnField, GlobalAnalysis } from '../types';
+import { MAX_TIMELINE_ROWS } from './schema';
+
+// ─── Built-in Profiles ────────────────────────────────────────────────────────
+
+/**
+ * Layout of public/template.xlsx — the original TuneTag workbook.
+ * Part 1 timeline in rows 6–15 (A–D), Part 2 global analysis in C19–C27.
+ */
+export const TUNETAG_V1_PROFILE: TemplateProfile = {
+  id: 'tunetag_v1',
+  label: 'TuneTag (default)',
+  description: 'Standard TuneTag workbook — timeline rows 6–15, global analysis C19–C27.',
+  masterSheet: 'Track 1',
+  metadata: {
+    annotator: 'B2',
+    audioLabel: 'B1',
+  },
+  timeline: {
+    firstRow: 6,
+    maxRows: MAX_TIMELINE_ROWS,
+    columns: {
+      timestamp: 'A',
+      sectionType: 'B',
+      narrative: 'C',
+      tags: 'D',
+    },
+    timestampNumFmt: '[m]:ss',
+    headerRow: 5,
+    headers: {
+      timestamp: 'START TIME',
+      sectionType: 'SECTION TYPE',
+      narrative: 'NARRATIVE DESCRIPTION',
+      tags: 'TAGS',
+    },
+  },
+  global: {
+    labelColumn: 'A',
+    guidanceColumn: 'B',
+    valueColumn: 'C',
+    rows: {
+      genre: 19,
+      instrumentation: 20,
+      mix: 21,
+      playing: 22,
+      vocals: 23,
+      emotion: 24,
+      lyrics: 25,
+      quality: 26,
+      wow: 27,
+    },
+  },
+  skipped: {
+    markerCell: 'C6',
+    reasonCell: 'C19',
+  },
+  overflowSheet: 'Overflow',
+};
+
+export const TEMPLATE_PROFILES: TemplateProfile[] = [TUNETAG_V1_PROFILE];
+
+export const DEFAULT_TEMPLATE_PROFILE_ID = TUNETAG_V1_PROFILE.id;
+
+/**
+ * Looks up a profile by id. Unknown ids (e.g. from an older saved session)
+ * fall back to the default profile rather than failing the export.
+ */
+export function getTemplateProfile(id: string | undefined): TemplateProfile {
+  return TEMPLATE_PROFILES.find((p) => p.id === id) ?? TUNETAG_V1_PROFILE;
+}
+
+// ─── Address helpers ──────────────────────────────────────────────────────────
+
+/** A1-style address of a timeline cell. `index` is the 0-based entry index. */
+export function timelineCell(
+  profile: TemplateProfile,
+  field: TimelineColumnField,
+  index: number
+): string {
+  return `${profile.timeline.columns[field]}${profile.timeline.firstRow + index}`;
+}
+
+/** A1-style address of the value cell for a global category. */
+export function globalValueCell(
+  profile: TemplateProfile,
+  key: keyof GlobalAnalysis
+): string {
+  return `${profile.global.valueColumn}${profile.global.rows[key]}`;
+}
+
+/** A1-style address of the column A label cell for a global category. */
+export function globalLabelCell(
+  profile: TemplateProfile,
+  key: keyof GlobalAnalysis
+): string {
+  return `${profile.global.labelColumn}${profile.global.rows[key]}`;
+}
+
+export const TIMELINE_COLUMN_FIELDS: TimelineColumnField[] = [
+  'timestamp',
+  'sectionType',
+  'narrative',
+  'tags',
+];
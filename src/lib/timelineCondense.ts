@@ -0,0 +1,71 @@
+import type { TimelineEntry } from '../types';
+
+// ─── Condense tool ────────────────────────────────────────────────────────────
+// Used when a timeline has more sections than the template has rows and the
+// overflow strategy is 'condense'. Merging is always an explicit user action —
+// nothing here drops text.
+
+function joinText(a: string, b: string): string {
+  const left = a.trim();
+  const right = b.trim();
+  if (!left) return right;
+  if (!right) return left;
+  return /[.!?]$/.test(left) ? `${left} ${right}` : `${left}. ${right}`;
+}
+
+function joinTags(a: string, b: string): string {
+  const seen = new Set<string>();
+  const out: string[] = [];
+  for (const tag of [...a.split(','), ...b.split(',')]) {
+    const t = tag.trim();
+    if (!t || seen.has(t.toLowerCase())) continue;
+    seen.add(t.toLowerCase());
+    out.push(t);
+  }
+  return out.join(', ');
+}
+
+/** Combines two adjacent entries. The earlier timestamp and id are kept. */
+export function mergeEntryPair(first: TimelineEntry, second: TimelineEntry): TimelineEntry {
+  const typeA = first.sectionType.trim();
+  const typeB = second.sectionType.trim();
+  return {
+    ...first,
+    sectionType:
+      !typeB || typeA.toLowerCase() === typeB.toLowerCase()
+        ? typeA
+        : typeA ? `${typeA} / ${typeB}` : typeB,
+    narrative: joinText(first.narrative, second.narrative),
+    narrativeRaw: joinText(first.narrativeRaw, second.narrativeRaw),
+    tags: joinTags(first.tags, second.tags),
+    wasPolished: first.wasPolished || second.wasPolished,
+    isDictated: first.isDictated || second.isDictated || undefined,
+  };
+}
+
+/** Returns a copy of `entries` with entry `index` merged with the entry after it. */
+export function mergeTimelineEntries(entries: TimelineEntry[], index: number): TimelineEntry[] {
+  if (index < 0 || index >= entries.length - 1) return entries;
+  return [
+    ...entries.slice(0, index),
+    mergeEntryPair(entries[index], entries[index + 1]),
+    ...entries.slice(index + 2),
+  ];
+}
+
+/**
+ * Suggests which adjacent pair to merge next: the one with the shortest
+ * combined narrative, i.e. the least detail lost to reading as one section.
+ */
+export function suggestMergeIndex(entries: TimelineEntry[]): number | null {
+  let best: number | null = null;
+  let bestLength = Infinity;
+  for (let i = 0; i < entries.length - 1; i++) {
+    const len = entries[i].narrative.length + entries[i + 1].narrative.length;
+    if (len < bestLength) {
+      bestLength = len;
+      best = i;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,16 @@
+// ─── M:SS timestamps ──────────────────────────────────────────────────────────
+// The one place timeline timestamps are parsed and formatted, so lint, import
+// and every export agree on what a valid timestamp is.
+
+/** Seconds for an M:SS timestamp; null when it isn't one. */
+export function timestampToSeconds(mss: string): number | null {
+  const match = mss.trim().match(/^(\d+):([0-5]\d)$/);
+  if (!match) return null;
+  return parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+}
+
+/** M:SS for a number of seconds, rounded to the nearest second. */
+export function secondsToTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds));
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+}
@@ -0,0 +1,262 @@
+import type { TranscriptWord } from '../types';
+import { LLM_PROVIDERS } from './llmProviders';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type TranscriptionBackendId = 'openai_whisper' | 'local_whisper' | 'browser_speech';
+
+/** Which service transcribes speech. Not secret — persisted in localStorage. */
+export interface TranscriptionSettings {
+  backend: TranscriptionBackendId;
+  endpoint: string;  // only used by local_whisper — the full URL audio is POSTed to
+  model: string;     // '' = the backend's default
+}
+
+export interface TranscriptionResult {
+  text: string;
+  words: TranscriptWord[] | null;  // null when the backend gives no word timings
+}
+
+export type TranscriptionUnavailableReason =
+  | 'no_key'          // no API key entered for a backend that needs one
+  | 'invalid_key'     // 401 / 403
+  | 'rate_limited'    // 429
+  | 'network'         // fetch failed — offline, CORS, local server not running
+  | 'bad_request'     // 400 / 404 / 413 / 415 — wrong URL, model or audio format
+  | 'server_error'    // 5xx
+  | 'bad_response';   // 2xx but no transcript in the body
+
+const REASON_MESSAGES: Record<TranscriptionUnavailableReason, string> = {
+  no_key: 'No API key set',
+  invalid_key: 'Invalid API key',
+  rate_limited: 'Rate limited — try again in a moment',
+  network: 'Network error — check your connection or that the server is running',
+  bad_request: 'Request rejected — check the endpoint and model',
+  server_error: 'The server had an error — try again shortly',
+  bad_response: 'Unexpected response format',
+};
+
+export class TranscriptionUnavailableError extends Error {
+  constructor(public reason: TranscriptionUnavailableReason, public detail?: string) {
+    super('Transcription unavailable: ' + REASON_MESSAGES[reason] + (detail ? ` (${detail})` : ''));
+    this.name = 'TranscriptionUnavailableError';
+  }
+}
+
+/** The part of the browser's SpeechRecognition that dictation uses. */
+export interface LiveRecognizer {
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  onresult: ((event: LiveRecognitionEvent) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  stop: () => void;
+}
+
+export interface LiveRecognitionEvent {
+  resultIndex: number;
+  results: ArrayLike<{ isFinal: boolean; 0: { transcript: string } }>;
+}
+
+export interface TranscriptionBackend {
+  id: TranscriptionBackendId;
+  label: string;
+  defaultModel: string;     // '' = let the server pick
+  keyStorage: string;       // sessionStorage key holding this backend's API key
+  keyRequired: boolean;
+  wordTimestamps: boolean;  // returns per-word start/end times
+  /**
+   * Creates a recognizer that transcribes dictation as it is spoken (null
+   * where the browser has no support); null for backends that transcribe
+   * the finished recording instead.
+   */
+  listen: (() => LiveRecognizer | null) | null;
+  /** Transcribes a finished recording; null for live-only backends. */
+  transcribe: ((audio: Blob, mimeType: string, settings: TranscriptionSettings, apiKey: string) => Promise<TranscriptionResult>) | null;
+}
+
+// ─── HTTP ─────────────────────────────────────────────────────────────────────
+
+async function postForm(url: string, headers: Record<string, string>, body: FormData): Promise<unknown> {
+  let response: Response;
+  try {
+    response = await fetch(url, { method: 'POST', headers, body });
+  } catch {
+    throw new TranscriptionUnavailableError('network', url);
+  }
+
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    const detail = `HTTP ${response.status}${text ? `: ${text.slice(0, 200)}` : ''}`;
+    if (response.status === 401 || response.status === 403) throw new TranscriptionUnavailableError('invalid_key', detail);
+    if (response.status === 429) throw new TranscriptionUnavailableError('rate_limited', detail);
+    if (response.status >= 500) throw new TranscriptionUnavailableError('server_error', detail);
+    throw new TranscriptionUnavailableError('bad_request', detail);
+  }
+
+  try {
+    return await response.json();
+  } catch {
+    throw new TranscriptionUnavailableError('bad_response', 'Body is not JSON');
+  }
+}
+
+function audioFile(audio: Blob, mimeType: string): File {
+  const ext = mimeType.includes('ogg') ? 'ogg' : 'webm';
+  return new File([audio], `recording.${ext}`, { type: mimeType });
+}
+
+type RawWord = { word?: unknown; start?: unknown; end?: unknown };
+
+function toWords(raw: RawWord[]): TranscriptWord[] {
+  return raw.flatMap((w) => {
+    const text = typeof w.word === 'string' ? w.word.trim() : '';
+    if (!text || typeof w.start !== 'number' || typeof w.end !== 'number') return [];
+    return [{ text, start: w.start, end: w.end }];
+  });
+}
+
+/**
+ * Reads a verbose_json transcription: OpenAI and faster-whisper put words at
+ * the top level, whisper.cpp nests them under each segment.
+ */
+export function parseTranscriptionReply(data: unknown): TranscriptionResult {
+  const body = data as { text?: unknown; words?: RawWord[]; segments?: Array<{ words?: RawWord[] }> } | null;
+  if (typeof body?.text !== 'string') throw new TranscriptionUnavailableError('bad_response');
+  const raw = Array.isArray(body.words)
+    ? body.words
+    : Array.isArray(body.segments)
+      ? body.segments.flatMap((s) => (Array.isArray(s.words) ? s.words : []))
+      : [];
+  const words = toWords(raw);
+  return { text: body.text.trim(), words: words.length > 0 ? words : null };
+}
+
+/** The OpenAI transcription request — also accepted by faster-whisper servers and whisper.cpp's server. */
+async function whisperRequest(url: string, audio: Blob, mimeType: string, model: string, apiKey: string): Promise<TranscriptionResult> {
+  const form = new FormData();
+  form.append('file', audioFile(audio, mimeType));
+  if (model) form.append('model', model);
+  form.append('response_format', 'verbose_json');
+  form.append('timestamp_granularities[]', 'word');
+  const data = await postForm(url, apiKey ? { Authorization: `Bearer ${apiKey}` } : {}, form);
+  return parseTranscriptionReply(data);
+}
+
+// ─── Browser speech ───────────────────────────────────────────────────────────
+
+type LiveRecognizerCtor = new () => LiveRecognizer;
+
+function browserRecognizerCtor(): LiveRecognizerCtor | null {
+  if (typeof window === 'undefined') return null;
+  const w = window as unknown as { SpeechRecognition?: LiveRecognizerCtor; webkitSpeechRecognition?: LiveRecognizerCtor };
+  return w.SpeechRecognition ?? w.webkitSpeechRecognition ?? null;
+}
+
+/** True when this browser has a SpeechRecognition implementation (Chrome / Edge). */
+export function browserSpeechSupported(): boolean {
+  return browserRecognizerCtor() !== null;
+}
+
+// ─── Backends ─────────────────────────────────────────────────────────────────
+
+export const DEFAULT_LOCAL_WHISPER_ENDPOINT = 'http://localhost:8080/inference';
+
+export const TRANSCRIPTION_BACKENDS: Record<TranscriptionBackendId, TranscriptionBackend> = {
+  openai_whisper: {
+    id: 'openai_whisper',
+    label: 'OpenAI Whisper',
+    defaultModel: 'whisper-1',
+    keyStorage: LLM_PROVIDERS.openai.keyStorage,  // the same OpenAI key as the text provider
+    keyRequired: true,
+    wordTimestamps: true,
+    listen: null,
+    transcribe: (audio, mimeType, settings, apiKey) =>
+      whisperRequest('https://api.openai.com/v1/audio/transcriptions', audio, mimeType, settings.model, apiKey),
+  },
+  local_whisper: {
+    id: 'local_whisper',
+    label: 'Self-hosted Whisper server',
+    defaultModel: '',
+    keyStorage: 'whisper_local_api_key',
+    keyRequired: false,
+    wordTimestamps: true,
+    listen: null,
+    transcribe: (audio, mimeType, settings, apiKey) =>
+      whisperRequest(settings.endpoint.trim() || DEFAULT_LOCAL_WHISPER_ENDPOINT, audio, mimeType, settings.model, apiKey),
+  },
+  browser_speech: {
+    id: 'browser_speech',
+    label: 'Browser Speech API',
+    defaultModel: '',
+    keyStorage: '',
+    keyRequired: false,
+    wordTimestamps: false,
+    listen: () => {
+      const Ctor = browserRecognizerCtor();
+      return Ctor ? new Ctor() : null;
+    },
+    transcribe: null,
+  },
+};
+
+// ─── Settings ─────────────────────────────────────────────────────────────────
+
+const SETTINGS_KEY = 'tunetag_transcription_settings';
+
+export const DEFAULT_TRANSCRIPTION_SETTINGS: TranscriptionSettings = {
+  backend: 'browser_speech',
+  endpoint: DEFAULT_LOCAL_WHISPER_ENDPOINT,
+  model: '',
+};
+
+export function loadTranscriptionSettings(): TranscriptionSettings {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    if (!raw) return DEFAULT_TRANSCRIPTION_SETTINGS;
+    const parsed = JSON.parse(raw) as Partial<TranscriptionSettings>;
+    const backend = parsed.backend && parsed.backend in TRANSCRIPTION_BACKENDS ? parsed.backend : DEFAULT_TRANSCRIPTION_SETTINGS.backend;
+    return { ...DEFAULT_TRANSCRIPTION_SETTINGS, ...parsed, backend };
+  } catch {
+    return DEFAULT_TRANSCRIPTION_SETTINGS;
+  }
+}
+
+export function saveTranscriptionSettings(settings: TranscriptionSettings): void {
+  try { localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings)); } catch { /* ignore */ }
+}
+
+export function selectedBackend(settings: TranscriptionSettings = loadTranscriptionSettings()): TranscriptionBackend {
+  return TRANSCRIPTION_BACKENDS[settings.backend];
+}
+
+/**
+ * The backend that transcribes saved recordings: the selected one, or OpenAI
+ * Whisper when the selected one is live-only.
+ */
+export function recordingBackend(settings: TranscriptionSettings = loadTranscriptionSettings()): TranscriptionBackend {
+  const backend = selectedBackend(settings);
+  return backend.transcribe ? backend : TRANSCRIPTION_BACKENDS.openai_whisper;
+}
+
+export function getBackendKey(backend: TranscriptionBackend): string {
+  if (!backend.keyStorage) return '';
+  try { return sessionStorage.getItem(backend.keyStorage) ?? ''; } catch { return ''; }
+}
+
+/**
+ * Transcribes a recording with `recordingBackend`. Every failure surfaces as
+ * a TranscriptionUnavailableError with a normalised reason.
+ */
+export async function transcribeRecording(
+  audio: Blob,
+  mimeType: string,
+  settings: TranscriptionSettings = loadTranscriptionSettings()
+): Promise<TranscriptionResult> {
+  const backend = recordingBackend(settings);
+  const apiKey = getBackendKey(backend);
+  if (backend.keyRequired && !apiKey) throw new TranscriptionUnavailableError('no_key', backend.label);
+  return backend.transcribe!(audio, mimeType, { ...settings, model: settings.model.trim() || backend.defaultModel }, apiKey);
+}
@@ -56,6 +56,38 @@ export interface TrackAnnotation {
   elapsedSeconds: number;
   lastSavedAt?: number;
   resumePhase?: Phase;  // persisted so PhaseSelect can restore exact phase
+  polishedGlobal?: (keyof GlobalAnalysis)[];  // global categories whose cleaned-up text was accepted
+  globalDrafts?: Partial<Record<keyof GlobalAnalysis, GlobalDraft>>;  // "Draft from timeline" text not yet used or dismissed
+  revisionLog?: Record<string, FieldRevision[]>;  // per-field history, keyed by entry id or "global:<key>"
+}
+
+/**
+ * One step in a field's history. `text` is the field's text after the step,
+ * except `polish_proposed` (the suggestion) and `polish_rejected` (unchanged).
+ */
+export type RevisionKind =
+  | 'dictation'         // transcript the section started from
+  | 'typed'             // first text the annotator typed
+  | 'manual_edit'
+  | 'polish_proposed'
+  | 'polish_accepted'
+  | 'polish_rejected'
+  | 'draft_accepted';   // a "Draft from timeline" suggestion taken as-is
+
+export interface FieldRevision {
+  kind: RevisionKind;
+  at: number;             // epoch ms; 0 for history reconstructed from older sessions
+  text: string;
+  provider?: string;      // AI steps: LlmProviderId, or 'quick_clean' for the offline rewriter
+  model?: string;
+  promptHash?: string;    // hash of the system prompt, to tell style profiles apart
+  edited?: boolean;       // polish_accepted: the suggestion was changed before accepting
+}
+
+/** A first draft of a global category, summarised from the timeline. Never written into `global` until used. */
+export interface GlobalDraft {
+  text: string;
+  source: 'ai' | 'timeline_tags';
 }
 
 export interface AppState {
@@ -70,20 +102,79 @@ export interface AppState {
   promptsTagsLibrary: PromptsTagsLibraryState;
   // Undo stack for structured actions (tag toggles, imports, etc.)
   undoStack: UndoAction[];
+  // Excel template layout used for this project's exports
+  templateProfileId: string;
+  // What happens to timeline entries beyond the template's row count
+  timelineOverflowStrategy: TimelineOverflowStrategy;
+  // Per-project lint overrides: disabled rules, severities, thresholds
+  lintConfig: LintConfig;
+  // Style profile (rules, polish prompt, lint thresholds) used for this project
+  styleProfileId: string;
 }
 
 export type TemplateState =
   | { status: 'loading' }
   | { status: 'ready'; buffer: ArrayBuffer }
+  // Loaded, but the inspector found layout differences — shown in Review before export
+  | { status: 'ready_with_warnings'; buffer: ArrayBuffer; issues: TemplateIssue[] }
   | { status: 'failed'; error: string };
 
+/** One compatibility problem between a loaded template and its TemplateProfile. */
+export interface TemplateIssue {
+  kind: 'missing_sheet' | 'label_mismatch' | 'header_mismatch';
+  sheet: string;
+  cell?: string;        // A1-style address, for cell-level issues
+  expected?: string;
+  found?: string;
+  message: string;
+}
+
 export type LintSeverity = 'error' | 'warning';
 
 export interface LintIssue {
+  ruleId: string;  // id of the LintRule that raised it, e.g. 'entry/first-person'
   field: string;
   severity: LintSeverity;
   message: string;
   phase?: Phase;  // optional: which phase to navigate to on "Fix this"
+  fixes?: LintFix[];  // mechanical fixes the user can apply straight from the lint panel
+}
+
+/** A replacement value for one annotation field — what applying a lint fix writes. */
+export type LintFixPatch =
+  | { target: 'timeline_entry'; entryId: string; field: 'narrative' | 'tags'; value: string }
+  | { target: 'global_category'; key: keyof GlobalAnalysis; value: string };
+
+/** An accepted polish result for one field. Timeline rows keep their narrativeRaw. */
+export type PolishUpdate =
+  | { target: 'timeline_entry'; entryId: string; value: string }
+  | { target: 'global_category'; key: keyof GlobalAnalysis; value: string };
+
+export interface LintFix {
+  label: string;      // e.g. "Strip opener" — shown on the Apply button
+  preview: string;    // what the field will read after the fix
+  safe: boolean;      // meaning-preserving; included in "Apply all safe fixes"
+  patch: LintFixPatch;
+}
+
+/** What a lint rule inspects: one timeline row, one global category, or the whole track. */
+export type LintTarget = 'timeline_entry' | 'global_category' | 'track';
+
+export type LintOptionValue = number | string | boolean;
+
+/** Per-project override for one rule. Unset fields fall back to the rule's defaults. */
+export interface LintRuleConfig {
+  enabled?: boolean;
+  severity?: LintSeverity;
+  options?: Record<string, LintOptionValue>;
+}
+
+/** Persisted lint configuration, keyed by rule id. */
+export interface LintConfig {
+  rules: Record<string, LintRuleConfig>;
+  // Option values from the project's style profile, beneath the per-rule
+  // overrides. Filled in at lint time, not persisted.
+  profileOptions?: Record<string, Record<string, LintOptionValue>>;
 }
 
 export interface LintResult {
@@ -119,6 +210,13 @@ export type DictationStatus =
   | 'done'
   | 'error';
 
+/** One word of a transcript, timed in seconds from the start of the recording. */
+export interface TranscriptWord {
+  text: string;
+  start: number;
+  end: number;
+}
+
 // A single audio recording captured during a dictation session.
 // Stored in App-level React state (in-memory, cleared on page reload).
 export interface RecordingEntry {
@@ -128,8 +226,9 @@ export interface RecordingEntry {
   createdAt: number;   // Date.now()
   audioBlob: Blob;     // raw audio (audio/webm or audio/ogg)
   audioUrl: string;    // URL.createObjectURL(audioBlob) — revoked on delete
-  transcript: string;  // Speech API transcript captured at record time
+  transcript: string;  // captured at record time — live Speech API, or the selected backend once it stops
   mimeType: string;    // the mimeType used by MediaRecorder
+  words?: TranscriptWord[];  // word timings, when transcribed by a backend that gives them
 }
 
 // ─── Prompts & Tags System ────────────────────────────────────────────────────
@@ -159,6 +258,7 @@ export interface TagDef {
   category: string;     // display grouping, e.g. "Drums", "Bass", "Arrangement"
   source: 'builtin' | 'custom';
   packIds: string[];    // which packs include this tag, e.g. ['general', 'dnb']
+  aliases?: string[];   // normalized alternative names from packs, e.g. ['hats'] for "hi-hat"
 }
 
 /**
@@ -181,6 +281,26 @@ export interface PhraseEntry {
   source: 'manual' | 'builder'; // 'builder' = generated by Who/What/Where/When
 }
 
+/** One numbered style rule as shown before annotating. */
+export interface StyleRule {
+  num: number;
+  title: string;
+  body: string;
+  defaultExpanded: boolean;
+  // Lint thresholds that enforce this rule, keyed by lint rule id
+  lintOptions?: Record<string, Record<string, LintOptionValue>>;
+  polish?: string[];  // clean-up instructions this rule adds to the polish prompt
+}
+
+/** A client brief's style guide: the rules annotators read and the polish prompt built from them. */
+export interface StyleProfile {
+  id: string;
+  name: string;
+  source: 'builtin' | 'custom';
+  rules: StyleRule[];            // also the source of the polish prompt's instructions
+  quickCleanWords?: string[];    // filler the offline Quick clean strips; absent in profiles saved before it existed
+}
+
 /**
  * The full persistent state for the Prompts & Tags library.
  * Stored separately from session annotation data.
@@ -199,6 +319,7 @@ export interface PromptsTagsLibraryState {
     firstSection: string[];
     subsequentSection: string[];
   };
+  styleProfiles: StyleProfile[];         // builtin profile first, then custom ones
 }
 
 /**
@@ -227,5 +348,62 @@ export interface TagPackImport {
     label: string;
     type: TagType | string; // unknown types are mapped to 'custom'
     category: string;
+    aliases?: string[];
   }>;
 }
+
+// ─── Excel Template Profiles ──────────────────────────────────────────────────
+
+/** The TimelineEntry fields that are written to a column of the timeline grid. */
+export type TimelineColumnField = 'timestamp' | 'sectionType' | 'narrative' | 'tags';
+
+/**
+ * A declarative description of where annotation data lives in a client
+ * workbook. The exporter and scripts/validateExport.ts both read from this —
+ * never hardcode cell addresses anywhere else.
+ */
+export interface TemplateProfile {
+  id: string;
+  label: string;
+  description?: string;
+  // Pristine track sheet cloned when a track's sheetName is missing from the workbook
+  masterSheet: string;
+  // Single-cell annotator/track metadata, as A1-style addresses
+  metadata: {
+    annotator: string;
+    audioLabel: string;
+  };
+  // Part 1 grid: one row per TimelineEntry, starting at firstRow
+  timeline: {
+    firstRow: number;
+    maxRows: number;
+    columns: Record<TimelineColumnField, string>; // column letters, e.g. 'A'
+    timestampNumFmt: string;
+    // Column header row above firstRow; each header must start with the given text
+    headerRow: number;
+    headers: Record<TimelineColumnField, string>;
+  };
+  // Part 2: one row per GlobalAnalysis key. labelColumn holds CategoryDef.excelLabel,
+  // guidanceColumn holds read-only guidance text that must never be written.
+  global: {
+    labelColumn: string;
+    guidanceColumn: string;
+    valueColumn: string;
+    rows: Record<keyof GlobalAnalysis, number>;
+  };
+  // Cells written for a skipped track
+  skipped: {
+    markerCell: string;
+    reasonCell: string;
+  };
+  // Companion sheet that receives timeline rows beyond timeline.maxRows
+  overflowSheet: string;
+}
+
+/**
+ * How the exporter treats a timeline longer than the template's row count.
+ * 'overflow_sheet' writes the extra rows to the profile's overflow sheet;
+ * 'condense' blocks export until the annotator merges sections down.
+ * Rows are never silently dropped.
+ */
+export type TimelineOverflowStrategy = 'overflow_sheet' | 'condense';